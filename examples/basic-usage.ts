@@ -67,7 +67,7 @@ async function startGame() {
   
   // Later, when user clicks "Start Game"
   setTimeout(async () => {
-    await sceneManager.switchTo('game', {
+    await sceneManager.switchTo('game', undefined, {
       duration: 1000,
       easing: (t) => t * t // ease-in
     });
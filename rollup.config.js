@@ -3,15 +3,23 @@ import { createRequire } from 'module';
 const require = createRequire(import.meta.url);
 
 export default {
-  input: 'src/index.ts',
+  // Devtools get their own entry so apps that never import them do not bundle them
+  input: {
+    index: 'src/index.ts',
+    devtools: 'src/devtools.ts'
+  },
   output: [
     {
-      file: 'dist/index.js',
+      dir: 'dist',
+      entryFileNames: '[name].js',
+      chunkFileNames: '[name]-[hash].js',
       format: 'cjs',
       sourcemap: true
     },
     {
-      file: 'dist/index.esm.js',
+      dir: 'dist',
+      entryFileNames: '[name].esm.js',
+      chunkFileNames: '[name]-[hash].esm.js',
       format: 'esm',
       sourcemap: true
     }
@@ -1,46 +1,31 @@
 import { KolownScene } from './Scene';
+import { SceneChannel } from './SceneChannel';
+import { SceneData } from './types';
 
 /**
- * A scene that runs in the background without a visual component.
- * Useful for tasks like data processing, network requests, or background logic.
+ * A scene that runs as a background service next to the scene stack, for
+ * tasks like syncing, network polling or audio. Start it with
+ * SceneManager.startBackgroundScene; it keeps getting onUpdate at its own
+ * tickRate whichever scene is in the foreground.
+ * @typeParam TCommands - Commands other scenes can send through the channel.
+ * @typeParam TEvents - Events the scene emits through the channel.
+ * @typeParam TData - The shape of the scene's data.
  */
-export class BackgroundScene extends KolownScene {
-  private intervalId: NodeJS.Timeout | null = null;
-
-  /**
-   * Called when the scene is entered. Starts background tasks.
-   */
-  onEnter(): void {
-    console.log(`${this.name} entered.`);
-    // Example: Start a periodic task
-    this.intervalId = setInterval(() => {
-      this.performBackgroundTask();
-    }, 1000); // Run every second
-  }
-
+export class BackgroundScene<
+  TCommands extends object = Record<string, unknown>,
+  TEvents extends object = Record<string, unknown>,
+  TData extends object = SceneData
+> extends KolownScene<TData> {
   /**
-   * Called when the scene is exited. Cleans up background tasks.
+   * Updates per second while the page is visible.
    */
-  onExit(): void {
-    console.log(`${this.name} exited.`);
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
-      this.intervalId = null;
-    }
-  }
-
+  public tickRate = 10;
   /**
-   * Perform the background task. Override this method to define custom logic.
+   * Updates per second while the page is hidden; 0 suspends the scene until it is visible again.
    */
-  protected performBackgroundTask(): void {
-    console.log(`${this.name} is performing a background task.`);
-    // Add custom logic here
-  }
-
+  public hiddenTickRate = 1;
   /**
-   * Update method is optional for background scenes but can be used if needed.
+   * Typed messages between this scene and the rest of the app.
    */
-  onUpdate(deltaTime: number): void {
-    // No-op by default
-  }
+  public readonly channel = new SceneChannel<TCommands, TEvents>();
 }
@@ -0,0 +1,54 @@
+import { SceneManager } from './SceneManager';
+import { SceneInspector } from './SceneInspector';
+import { DevtoolsBridge, DevtoolsBridgeOptions } from './types';
+
+/**
+ * Global property the bridge is installed under by default.
+ */
+export const DEVTOOLS_BRIDGE_KEY = '__SCENE_MANAGER__';
+
+/**
+ * Version of the DevtoolsBridge shape, for extensions that read it.
+ */
+export const DEVTOOLS_BRIDGE_VERSION = 1;
+
+/**
+ * Exposes a manager on the global object, e.g. window.__SCENE_MANAGER__, so a
+ * browser extension or the console can inspect and drive it.
+ * @param sceneManager - The manager to expose.
+ * @param options - Where to install the bridge.
+ *   - target: Object the bridge is set on (default: globalThis).
+ *   - key: Property name (default: '__SCENE_MANAGER__').
+ *   - inspector: Inspector to use (default: a new one, disposed on uninstall).
+ * @returns A function that removes the bridge again.
+ */
+export function installDevtoolsBridge(
+  sceneManager: SceneManager<any, any>,
+  options: DevtoolsBridgeOptions = {}
+): () => void {
+  const target = (options.target ?? globalThis) as Record<string, unknown>;
+  const key = options.key ?? DEVTOOLS_BRIDGE_KEY;
+  const inspector = options.inspector ?? new SceneInspector(sceneManager);
+
+  const bridge: DevtoolsBridge = {
+    version: DEVTOOLS_BRIDGE_VERSION,
+    manager: sceneManager,
+    inspector,
+    getSnapshot: () => inspector.getSnapshot(),
+    switchTo: (sceneName, params) => inspector.switchTo(sceneName, params),
+    pause: () => inspector.pause(),
+    resume: () => inspector.resume(),
+    step: frames => inspector.step(frames),
+    subscribe: listener => inspector.subscribe(listener)
+  };
+  target[key] = bridge;
+
+  return () => {
+    if (target[key] === bridge) {
+      delete target[key];
+    }
+    if (!options.inspector) {
+      inspector.dispose();
+    }
+  };
+}
@@ -0,0 +1,154 @@
+import { EasingFunction } from './types';
+
+const BACK_OVERSHOOT = 1.70158;
+const BACK_OVERSHOOT_IN_OUT = BACK_OVERSHOOT * 1.525;
+const ELASTIC_PERIOD = (2 * Math.PI) / 3;
+const ELASTIC_PERIOD_IN_OUT = (2 * Math.PI) / 4.5;
+
+function bounceOut(t: number): number {
+  const n1 = 7.5625;
+  const d1 = 2.75;
+
+  if (t < 1 / d1) {
+    return n1 * t * t;
+  }
+  if (t < 2 / d1) {
+    const u = t - 1.5 / d1;
+    return n1 * u * u + 0.75;
+  }
+  if (t < 2.5 / d1) {
+    const u = t - 2.25 / d1;
+    return n1 * u * u + 0.9375;
+  }
+  const u = t - 2.625 / d1;
+  return n1 * u * u + 0.984375;
+}
+
+/**
+ * Robert Penner's easing equations. Every function maps progress from 0 to 1
+ * onto eased progress that starts at 0 and ends at 1; back and elastic
+ * easings overshoot in between.
+ */
+export const Easing = {
+  linear: (t: number) => t,
+
+  easeInQuad: (t: number) => t * t,
+  easeOutQuad: (t: number) => 1 - (1 - t) * (1 - t),
+  easeInOutQuad: (t: number) => (t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2),
+
+  easeInCubic: (t: number) => t * t * t,
+  easeOutCubic: (t: number) => 1 - Math.pow(1 - t, 3),
+  easeInOutCubic: (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+
+  easeInQuart: (t: number) => Math.pow(t, 4),
+  easeOutQuart: (t: number) => 1 - Math.pow(1 - t, 4),
+  easeInOutQuart: (t: number) => (t < 0.5 ? 8 * Math.pow(t, 4) : 1 - Math.pow(-2 * t + 2, 4) / 2),
+
+  easeInQuint: (t: number) => Math.pow(t, 5),
+  easeOutQuint: (t: number) => 1 - Math.pow(1 - t, 5),
+  easeInOutQuint: (t: number) => (t < 0.5 ? 16 * Math.pow(t, 5) : 1 - Math.pow(-2 * t + 2, 5) / 2),
+
+  easeInSine: (t: number) => 1 - Math.cos((t * Math.PI) / 2),
+  easeOutSine: (t: number) => Math.sin((t * Math.PI) / 2),
+  easeInOutSine: (t: number) => -(Math.cos(Math.PI * t) - 1) / 2,
+
+  easeInExpo: (t: number) => (t === 0 ? 0 : Math.pow(2, 10 * t - 10)),
+  easeOutExpo: (t: number) => (t === 1 ? 1 : 1 - Math.pow(2, -10 * t)),
+  easeInOutExpo: (t: number) => {
+    if (t === 0 || t === 1) return t;
+    return t < 0.5 ? Math.pow(2, 20 * t - 10) / 2 : (2 - Math.pow(2, -20 * t + 10)) / 2;
+  },
+
+  easeInCirc: (t: number) => 1 - Math.sqrt(1 - t * t),
+  easeOutCirc: (t: number) => Math.sqrt(1 - Math.pow(t - 1, 2)),
+  easeInOutCirc: (t: number) => (t < 0.5
+    ? (1 - Math.sqrt(1 - Math.pow(2 * t, 2))) / 2
+    : (Math.sqrt(1 - Math.pow(-2 * t + 2, 2)) + 1) / 2),
+
+  easeInBack: (t: number) => (BACK_OVERSHOOT + 1) * t * t * t - BACK_OVERSHOOT * t * t,
+  easeOutBack: (t: number) => 1 + (BACK_OVERSHOOT + 1) * Math.pow(t - 1, 3) + BACK_OVERSHOOT * Math.pow(t - 1, 2),
+  easeInOutBack: (t: number) => (t < 0.5
+    ? (Math.pow(2 * t, 2) * ((BACK_OVERSHOOT_IN_OUT + 1) * 2 * t - BACK_OVERSHOOT_IN_OUT)) / 2
+    : (Math.pow(2 * t - 2, 2) * ((BACK_OVERSHOOT_IN_OUT + 1) * (t * 2 - 2) + BACK_OVERSHOOT_IN_OUT) + 2) / 2),
+
+  easeInElastic: (t: number) => {
+    if (t === 0 || t === 1) return t;
+    return -Math.pow(2, 10 * t - 10) * Math.sin((t * 10 - 10.75) * ELASTIC_PERIOD);
+  },
+  easeOutElastic: (t: number) => {
+    if (t === 0 || t === 1) return t;
+    return Math.pow(2, -10 * t) * Math.sin((t * 10 - 0.75) * ELASTIC_PERIOD) + 1;
+  },
+  easeInOutElastic: (t: number) => {
+    if (t === 0 || t === 1) return t;
+    return t < 0.5
+      ? -(Math.pow(2, 20 * t - 10) * Math.sin((20 * t - 11.125) * ELASTIC_PERIOD_IN_OUT)) / 2
+      : (Math.pow(2, -20 * t + 10) * Math.sin((20 * t - 11.125) * ELASTIC_PERIOD_IN_OUT)) / 2 + 1;
+  },
+
+  easeInBounce: (t: number) => 1 - bounceOut(1 - t),
+  easeOutBounce: bounceOut,
+  easeInOutBounce: (t: number) => (t < 0.5
+    ? (1 - bounceOut(1 - 2 * t)) / 2
+    : (1 + bounceOut(2 * t - 1)) / 2)
+} satisfies Record<string, EasingFunction>;
+
+/**
+ * Builds an easing from a CSS-style cubic Bézier curve through (0, 0),
+ * (x1, y1), (x2, y2) and (1, 1), e.g. cubicBezier(0.25, 0.1, 0.25, 1) for CSS "ease".
+ * @param x1 - X of the first control point, from 0 to 1.
+ * @param y1 - Y of the first control point.
+ * @param x2 - X of the second control point, from 0 to 1.
+ * @param y2 - Y of the second control point.
+ * @returns The easing function.
+ * @throws Error if either x lies outside 0 to 1.
+ */
+export function cubicBezier(x1: number, y1: number, x2: number, y2: number): EasingFunction {
+  if (x1 < 0 || x1 > 1 || x2 < 0 || x2 > 1) {
+    throw new Error(`Cubic Bézier x values must be between 0 and 1, got ${x1} and ${x2}`);
+  }
+
+  // Polynomial coefficients of each axis: ((a * s + b) * s + c) * s
+  const cx = 3 * x1;
+  const bx = 3 * (x2 - x1) - cx;
+  const ax = 1 - cx - bx;
+  const cy = 3 * y1;
+  const by = 3 * (y2 - y1) - cy;
+  const ay = 1 - cy - by;
+
+  const sampleX = (s: number) => ((ax * s + bx) * s + cx) * s;
+  const sampleY = (s: number) => ((ay * s + by) * s + cy) * s;
+  const sampleSlopeX = (s: number) => (3 * ax * s + 2 * bx) * s + cx;
+
+  const solveCurveX = (x: number): number => {
+    // Newton's method converges quickly on most curves
+    let s = x;
+    for (let i = 0; i < 8; i++) {
+      const error = sampleX(s) - x;
+      if (Math.abs(error) < 1e-7) return s;
+      const slope = sampleSlopeX(s);
+      if (Math.abs(slope) < 1e-6) break;
+      s -= error / slope;
+    }
+
+    // Fall back to bisection where the slope is too flat
+    let low = 0;
+    let high = 1;
+    s = x;
+    while (high - low > 1e-7) {
+      if (sampleX(s) < x) {
+        low = s;
+      } else {
+        high = s;
+      }
+      s = (low + high) / 2;
+    }
+    return s;
+  };
+
+  return (t: number) => {
+    if (t <= 0) return 0;
+    if (t >= 1) return 1;
+    return sampleY(solveCurveX(t));
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * A listener for a single event type.
+ */
+export type EventListener<T> = (payload: T) => void;
+
+/**
+ * A minimal typed event emitter.
+ * The event map is an interface whose keys are event names and whose values are payload types.
+ */
+export class EventEmitter<TEvents extends object> {
+  private listeners: Map<keyof TEvents, Set<EventListener<any>>> = new Map();
+
+  /**
+   * Subscribes to an event.
+   * @param event - The name of the event.
+   * @param listener - Called with the event payload every time the event is emitted.
+   * @returns A disposer that removes the listener.
+   */
+  public on<K extends keyof TEvents>(event: K, listener: EventListener<TEvents[K]>): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Subscribes to the next occurrence of an event only.
+   * @param event - The name of the event.
+   * @param listener - Called with the event payload once.
+   * @returns A disposer that removes the listener if it has not fired yet.
+   */
+  public once<K extends keyof TEvents>(event: K, listener: EventListener<TEvents[K]>): () => void {
+    const dispose = this.on(event, payload => {
+      dispose();
+      listener(payload);
+    });
+    return dispose;
+  }
+
+  /**
+   * Unsubscribes a listener from an event.
+   * @param event - The name of the event.
+   * @param listener - The listener to remove.
+   */
+  public off<K extends keyof TEvents>(event: K, listener: EventListener<TEvents[K]>): void {
+    const listeners = this.listeners.get(event);
+    if (!listeners) return;
+
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      this.listeners.delete(event);
+    }
+  }
+
+  /**
+   * Emits an event to every current listener.
+   * A listener that throws is reported to the console and does not stop the others.
+   * @param event - The name of the event.
+   * @param payload - The payload passed to each listener.
+   */
+  public emit<K extends keyof TEvents>(event: K, payload: TEvents[K]): void {
+    const listeners = this.listeners.get(event);
+    if (!listeners) return;
+
+    // Copy so listeners can unsubscribe while the event is being dispatched
+    for (const listener of Array.from(listeners)) {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`Error in "${String(event)}" listener:`, error);
+      }
+    }
+  }
+
+  /**
+   * Checks if an event has any listeners.
+   * @param event - The name of the event.
+   * @returns True if at least one listener is subscribed.
+   */
+  public hasListeners<K extends keyof TEvents>(event: K): boolean {
+    return this.listeners.has(event);
+  }
+
+  /**
+   * Removes every listener for every event.
+   */
+  public clear(): void {
+    this.listeners.clear();
+  }
+}
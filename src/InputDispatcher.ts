@@ -0,0 +1,121 @@
+import { ResourceTracker } from './ResourceTracker';
+import { InputActionMap, ListenerTarget, SceneInput, SceneInputEvent } from './types';
+
+const KEY_EVENTS = ['keydown', 'keyup'];
+const POINTER_EVENTS = ['pointerdown', 'pointerup', 'pointermove'];
+
+/**
+ * Turns raw input into abstract SceneInputEvents, tags them with the actions
+ * bound to them and hands them to SceneManager, which routes them to the
+ * focused scene first. Not tied to the DOM: call dispatch from any input
+ * source, or attach it to a window or element.
+ */
+export class InputDispatcher {
+  private bindings: Map<string, Set<string>> = new Map();
+  private attachments = new ResourceTracker();
+
+  /**
+   * Constructor for InputDispatcher. SceneManager creates one; get it with SceneManager.getInput.
+   * @param route - Delivers an event to the scenes and returns true if one consumed it.
+   * @param actions - Initial action bindings, e.g. { jump: ['Space', 'KeyW'] }.
+   */
+  constructor(private route: (event: SceneInputEvent) => boolean, actions: InputActionMap = {}) {
+    for (const [action, inputs] of Object.entries(actions)) {
+      this.bindAction(action, ...inputs);
+    }
+  }
+
+  /**
+   * Binds inputs to a named action. Events for any of the inputs carry the action.
+   * @param action - The action name, e.g. 'jump'.
+   * @param inputs - Key codes such as 'Space' or 'ArrowUp', or pointer buttons such as 'Pointer0'.
+   */
+  public bindAction(action: string, ...inputs: string[]): void {
+    const bound = this.bindings.get(action) ?? new Set<string>();
+    inputs.forEach(input => bound.add(input));
+    this.bindings.set(action, bound);
+  }
+
+  /**
+   * Removes inputs from an action.
+   * @param action - The action name.
+   * @param inputs - The inputs to remove; all of them when none are given.
+   */
+  public unbindAction(action: string, ...inputs: string[]): void {
+    const bound = this.bindings.get(action);
+    if (!bound) return;
+
+    if (inputs.length === 0) {
+      bound.clear();
+    } else {
+      inputs.forEach(input => bound.delete(input));
+    }
+    if (bound.size === 0) {
+      this.bindings.delete(action);
+    }
+  }
+
+  /**
+   * Gets every action and the inputs bound to it.
+   * @returns A copy of the action map.
+   */
+  public getActionMap(): InputActionMap {
+    const actions: InputActionMap = {};
+    this.bindings.forEach((inputs, action) => {
+      actions[action] = Array.from(inputs);
+    });
+    return actions;
+  }
+
+  /**
+   * Gets the actions an input is bound to.
+   * @param input - A key code or pointer button.
+   * @returns The action names, in the order they were first bound.
+   */
+  public getActions(input: string): string[] {
+    const actions: string[] = [];
+    this.bindings.forEach((inputs, action) => {
+      if (inputs.has(input)) {
+        actions.push(action);
+      }
+    });
+    return actions;
+  }
+
+  /**
+   * Sends an input to the scenes: the focused scene first, then every other
+   * active scene from the top layer down until one consumes it.
+   * @param input - The event type, the input and optionally a position and the original event.
+   * @returns True if a scene consumed the event.
+   */
+  public dispatch(input: SceneInput): boolean {
+    return this.route({ ...input, actions: this.getActions(input.input) });
+  }
+
+  /**
+   * Listens for keyboard and pointer events on a DOM target and dispatches them.
+   * Keys use KeyboardEvent.code as the input, pointer buttons 'Pointer' plus the
+   * button number, and pointer moves 'PointerMove'.
+   * @param target - Usually window or the game's canvas.
+   * @returns A function that removes the listeners.
+   */
+  public attach(target: ListenerTarget): () => void {
+    const tracker = new ResourceTracker();
+    KEY_EVENTS.forEach(type => tracker.listen(target, type, (event: KeyboardEvent) => {
+      this.dispatch({ type, input: event.code || event.key, repeat: event.repeat, originalEvent: event });
+    }));
+    POINTER_EVENTS.forEach(type => tracker.listen(target, type, (event: PointerEvent) => {
+      const input = type === 'pointermove' ? 'PointerMove' : `Pointer${event.button}`;
+      this.dispatch({ type, input, x: event.clientX, y: event.clientY, originalEvent: event });
+    }));
+
+    return this.attachments.add(() => tracker.dispose());
+  }
+
+  /**
+   * Removes the listeners of every attached DOM target.
+   */
+  public detachAll(): void {
+    this.attachments.dispose();
+  }
+}
@@ -0,0 +1,210 @@
+import { ResourceTracker } from './ResourceTracker';
+import { SceneInspector } from './SceneInspector';
+import { InspectedScene, InspectorOverlayOptions, InspectorSnapshot } from './types';
+
+const PANEL_STYLE = [
+  'position: fixed',
+  'top: 8px',
+  'right: 8px',
+  'z-index: 2147483647',
+  'width: 320px',
+  'max-height: 90vh',
+  'overflow: auto',
+  'padding: 8px',
+  'background: rgba(20, 20, 20, 0.85)',
+  'color: #eee',
+  'font: 11px/1.4 monospace',
+  'border-radius: 4px'
+].join('; ');
+
+/**
+ * A small debug panel drawn over the page: every scene with its state and
+ * data, the stack, the running transition and recent events, with buttons to
+ * switch scenes, pause, resume and step. Reads everything through a SceneInspector.
+ */
+export class InspectorOverlay {
+  private root: HTMLElement | null = null;
+  private sceneSelect: HTMLSelectElement | null = null;
+  private pauseButton: HTMLButtonElement | null = null;
+  private content: HTMLElement | null = null;
+  private resources = new ResourceTracker();
+  private readonly container?: HTMLElement;
+  private readonly refreshInterval: number;
+  private readonly maxEvents: number;
+
+  /**
+   * Constructor for InspectorOverlay.
+   * @param inspector - The inspector the panel reads from and drives.
+   * @param options - Configuration options for the panel.
+   *   - container: Element the panel is added to (default: document.body).
+   *   - refreshInterval: Milliseconds between redraws, so transition progress moves (default: 250).
+   *   - maxEvents: Number of recent events shown (default: 10).
+   */
+  constructor(private inspector: SceneInspector, options: InspectorOverlayOptions = {}) {
+    this.container = options.container;
+    this.refreshInterval = options.refreshInterval ?? 250;
+    this.maxEvents = options.maxEvents ?? 10;
+  }
+
+  /**
+   * Adds the panel to the page and keeps it up to date. Does nothing if already mounted.
+   */
+  public mount(): void {
+    if (this.root) return;
+
+    const root = document.createElement('div');
+    root.setAttribute('data-scene-inspector', '');
+    root.setAttribute('style', PANEL_STYLE);
+
+    const controls = document.createElement('div');
+    this.sceneSelect = document.createElement('select');
+    controls.appendChild(this.sceneSelect);
+    controls.appendChild(this.createButton('Switch', 'switch', () => this.switchToSelected()));
+    this.pauseButton = this.createButton('Pause', 'pause', () => this.togglePause());
+    controls.appendChild(this.pauseButton);
+    controls.appendChild(this.createButton('Step', 'step', () => this.inspector.step()));
+    root.appendChild(controls);
+
+    this.content = document.createElement('div');
+    root.appendChild(this.content);
+
+    (this.container ?? document.body).appendChild(root);
+    this.root = root;
+    this.resources.add(() => root.remove());
+    this.resources.add(this.inspector.subscribe(() => this.render()));
+    if (this.refreshInterval > 0) {
+      this.resources.setInterval(() => this.render(), this.refreshInterval);
+    }
+    this.render();
+  }
+
+  /**
+   * Removes the panel from the page and stops updating it.
+   */
+  public unmount(): void {
+    this.resources.dispose();
+    this.root = null;
+    this.sceneSelect = null;
+    this.pauseButton = null;
+    this.content = null;
+  }
+
+  /**
+   * Checks if the panel is on the page.
+   * @returns True if mounted, false otherwise.
+   */
+  public isMounted(): boolean {
+    return this.root !== null;
+  }
+
+  /**
+   * Redraws the panel from a fresh snapshot.
+   */
+  public render(): void {
+    if (!this.content || !this.sceneSelect || !this.pauseButton) return;
+
+    const snapshot = this.inspector.getSnapshot();
+    this.updateSceneSelect(snapshot.scenes);
+    this.pauseButton.textContent = snapshot.paused ? 'Resume' : 'Pause';
+
+    this.content.textContent = '';
+    this.content.appendChild(this.createSection('Status', this.describeStatus(snapshot)));
+    this.content.appendChild(this.createSection('Scenes', snapshot.scenes.map(scene => this.describeScene(scene))));
+    this.content.appendChild(this.createSection(
+      'Events',
+      snapshot.events.slice(-this.maxEvents).reverse().map(event => event.summary)
+    ));
+  }
+
+  private describeStatus(snapshot: InspectorSnapshot): string[] {
+    const lines = [
+      `stack: ${snapshot.stack ? snapshot.stack.join(' > ') || '(empty)' : '(not inspectable)'}`,
+      `${snapshot.paused ? 'paused' : 'running'}, time scale ${snapshot.timeScale}`
+    ];
+    if (snapshot.transition) {
+      const { from, to, progress, paused } = snapshot.transition;
+      lines.push(`transition: ${from ?? '(none)'} -> ${to} ${Math.round(progress * 100)}%${paused ? ' (paused)' : ''}`);
+    }
+    if (snapshot.performance) {
+      lines.push(`${snapshot.performance.fps.toFixed(0)} fps, p95 ${snapshot.performance.frameTime.p95.toFixed(1)} ms`);
+    }
+    return lines;
+  }
+
+  private describeScene(scene: InspectedScene): string {
+    const tags = [
+      scene.current ? 'current' : '',
+      scene.layer && !scene.current ? `layer ${scene.layer}` : '',
+      scene.background ? 'background' : ''
+    ].filter(tag => tag !== '');
+
+    let data: string;
+    try {
+      data = JSON.stringify(scene.data);
+    } catch (_error) {
+      data = '(not serializable)';
+    }
+    return `${scene.name} [${scene.state}]${tags.length > 0 ? ` (${tags.join(', ')})` : ''} ${data}`;
+  }
+
+  private createSection(title: string, lines: string[]): HTMLElement {
+    const section = document.createElement('div');
+    const heading = document.createElement('strong');
+    heading.textContent = title;
+    section.appendChild(heading);
+    for (const line of lines) {
+      const row = document.createElement('div');
+      row.textContent = line;
+      section.appendChild(row);
+    }
+    return section;
+  }
+
+  private createButton(label: string, action: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.textContent = label;
+    button.setAttribute('data-action', action);
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  private updateSceneSelect(scenes: InspectedScene[]): void {
+    const select = this.sceneSelect;
+    if (!select) return;
+
+    const names = scenes.map(scene => scene.name);
+    const current = Array.from(select.options).map(option => option.value);
+    if (names.join('\n') === current.join('\n')) return;
+
+    // Rebuild only when the scenes change, so an open dropdown keeps its selection
+    const selected = select.value;
+    select.textContent = '';
+    for (const name of names) {
+      const option = document.createElement('option');
+      option.value = name;
+      option.textContent = name;
+      select.appendChild(option);
+    }
+    if (names.includes(selected)) {
+      select.value = selected;
+    }
+  }
+
+  private switchToSelected(): void {
+    const sceneName = this.sceneSelect?.value;
+    if (!sceneName) return;
+
+    this.inspector.switchTo(sceneName).catch(error => {
+      console.error(`Inspector could not switch to scene "${sceneName}":`, error);
+    });
+  }
+
+  private togglePause(): void {
+    if (this.inspector.getSnapshot().paused) {
+      this.inspector.resume();
+    } else {
+      this.inspector.pause();
+    }
+  }
+}
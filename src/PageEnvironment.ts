@@ -0,0 +1,86 @@
+import { PageEnvironment } from './types';
+
+/**
+ * Reads visibility and focus from the browser's document and window.
+ */
+export class BrowserPageEnvironment implements PageEnvironment {
+  public isHidden(): boolean {
+    return document.visibilityState === 'hidden';
+  }
+
+  public hasFocus(): boolean {
+    return document.hasFocus();
+  }
+
+  public subscribe(listener: () => void): () => void {
+    document.addEventListener('visibilitychange', listener);
+    window.addEventListener('blur', listener);
+    window.addEventListener('focus', listener);
+    return () => {
+      document.removeEventListener('visibilitychange', listener);
+      window.removeEventListener('blur', listener);
+      window.removeEventListener('focus', listener);
+    };
+  }
+}
+
+/**
+ * A page whose visibility and focus only change when told to. Starts visible
+ * and focused. For tests, and for hosts such as native wrappers that report
+ * visibility themselves.
+ */
+export class ManualPageEnvironment implements PageEnvironment {
+  private hidden = false;
+  private focused = true;
+  private listeners: Set<() => void> = new Set();
+
+  public isHidden(): boolean {
+    return this.hidden;
+  }
+
+  public hasFocus(): boolean {
+    return this.focused;
+  }
+
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Hides or shows the page and notifies subscribers if that changed anything.
+   * @param hidden - True to hide the page, false to show it.
+   */
+  public setHidden(hidden: boolean): void {
+    if (this.hidden === hidden) return;
+    this.hidden = hidden;
+    this.notify();
+  }
+
+  /**
+   * Blurs or focuses the page and notifies subscribers if that changed anything.
+   * @param focused - True to focus the page, false to blur it.
+   */
+  public setFocused(focused: boolean): void {
+    if (this.focused === focused) return;
+    this.focused = focused;
+    this.notify();
+  }
+
+  private notify(): void {
+    Array.from(this.listeners).forEach(listener => listener());
+  }
+}
+
+/**
+ * Picks the page environment for the current platform: the browser's document
+ * when there is one, otherwise a page that is always visible and focused.
+ * @returns A new page environment.
+ */
+export function createDefaultPageEnvironment(): PageEnvironment {
+  return typeof document !== 'undefined' && typeof window !== 'undefined'
+    ? new BrowserPageEnvironment()
+    : new ManualPageEnvironment();
+}
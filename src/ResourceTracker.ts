@@ -0,0 +1,128 @@
+import { ListenerTarget, Scheduler, Unsubscribable } from './types';
+
+/**
+ * Collects the cleanup of timers, event listeners and subscriptions so they
+ * can be released together. Every scene owns one; SceneManager releases it
+ * when the scene exits and when the scene is destroyed.
+ */
+export class ResourceTracker {
+  private disposers: Set<() => void> = new Set();
+
+  /**
+   * @param scheduler - Runs setTimeout and setInterval; without one the global timers are
+   *   used. SceneManager sets it to its own scheduler when the scene is added, so scene
+   *   timers follow the same clock as its frames.
+   */
+  constructor(public scheduler: Scheduler | null = null) {}
+
+  /**
+   * Number of resources currently tracked.
+   */
+  public get size(): number {
+    return this.disposers.size;
+  }
+
+  /**
+   * Tracks a cleanup function, e.g. the disposer returned by SceneManager.on.
+   * @param disposer - Releases the resource.
+   * @returns A function that releases the resource early and stops tracking it.
+   */
+  public add(disposer: () => void): () => void {
+    let released = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      this.disposers.delete(release);
+      disposer();
+    };
+
+    this.disposers.add(release);
+    return release;
+  }
+
+  /**
+   * Calls a function once after a delay, unless released first.
+   * @param callback - The function to call.
+   * @param delay - The delay in milliseconds.
+   * @returns A function that clears the timeout.
+   */
+  public setTimeout(callback: () => void, delay: number): () => void {
+    const release = this.add(() => cancel());
+    const cancel = this.startTimeout(() => {
+      release();
+      callback();
+    }, delay);
+    return release;
+  }
+
+  /**
+   * Calls a function repeatedly until released.
+   * @param callback - The function to call.
+   * @param interval - The time between calls in milliseconds.
+   * @returns A function that clears the interval.
+   */
+  public setInterval(callback: () => void, interval: number): () => void {
+    const { scheduler } = this;
+    if (!scheduler) {
+      const intervalId = setInterval(callback, interval);
+      return this.add(() => clearInterval(intervalId));
+    }
+
+    // Schedulers only have timeouts, so each tick queues the next one first
+    const tick = () => {
+      cancel = scheduler.setTimeout(tick, interval);
+      callback();
+    };
+    let cancel = scheduler.setTimeout(tick, interval);
+    return this.add(() => cancel());
+  }
+
+  /**
+   * Adds an event listener that is removed on release.
+   * @param target - A DOM element, window, document or anything with add/removeEventListener.
+   * @param type - The event type, e.g. 'keydown'.
+   * @param listener - The listener to add.
+   * @param options - Passed to both addEventListener and removeEventListener.
+   * @returns A function that removes the listener.
+   */
+  public listen(
+    target: ListenerTarget,
+    type: string,
+    listener: (event: any) => void,
+    options?: boolean | AddEventListenerOptions
+  ): () => void {
+    target.addEventListener(type, listener, options);
+    return this.add(() => target.removeEventListener(type, listener, options));
+  }
+
+  /**
+   * Tracks a subscription such as an RxJS or store subscription.
+   * @param subscription - Anything with an unsubscribe method.
+   * @returns A function that unsubscribes.
+   */
+  public subscribe(subscription: Unsubscribable): () => void {
+    return this.add(() => subscription.unsubscribe());
+  }
+
+  /**
+   * Releases every tracked resource, newest first. A cleanup that throws is
+   * reported to the console and does not stop the others.
+   */
+  public dispose(): void {
+    for (const release of Array.from(this.disposers).reverse()) {
+      try {
+        release();
+      } catch (error) {
+        console.error('Error releasing a scene resource:', error);
+      }
+    }
+  }
+
+  private startTimeout(callback: () => void, delay: number): () => void {
+    if (this.scheduler) {
+      return this.scheduler.setTimeout(callback, delay);
+    }
+    const timeoutId = setTimeout(callback, delay);
+    return () => clearTimeout(timeoutId);
+  }
+}
@@ -0,0 +1,131 @@
+import { RouterHistory } from './types';
+
+type PathListener = (path: string) => void;
+
+/**
+ * Keeps paths in memory, with browser-like back and forward. For tests and
+ * environments without a URL bar.
+ */
+export class MemoryRouterHistory implements RouterHistory {
+  private entries: string[];
+  private index = 0;
+  private listeners: Set<PathListener> = new Set();
+
+  /**
+   * @param initialPath - The path the history starts on (default: '/').
+   */
+  constructor(initialPath = '/') {
+    this.entries = [initialPath];
+  }
+
+  public getPath(): string {
+    return this.entries[this.index];
+  }
+
+  public push(path: string): void {
+    this.entries = [...this.entries.slice(0, this.index + 1), path];
+    this.index = this.entries.length - 1;
+  }
+
+  public replace(path: string): void {
+    this.entries[this.index] = path;
+  }
+
+  public listen(listener: PathListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Moves through the entries like the browser's back and forward buttons,
+   * notifying listeners of the new path.
+   * @param delta - How many entries to move; negative goes back.
+   */
+  public go(delta: number): void {
+    const index = Math.min(Math.max(this.index + delta, 0), this.entries.length - 1);
+    if (index === this.index) return;
+
+    this.index = index;
+    this.listeners.forEach(listener => listener(this.getPath()));
+  }
+
+  public back(): void {
+    this.go(-1);
+  }
+
+  public forward(): void {
+    this.go(1);
+  }
+
+  /**
+   * Simulates the user typing a path into the address bar.
+   * @param path - The new path.
+   */
+  public visit(path: string): void {
+    this.push(path);
+    this.listeners.forEach(listener => listener(path));
+  }
+
+  /**
+   * Gets every path in the history, oldest first.
+   * @returns A copy of the entries.
+   */
+  public getEntries(): string[] {
+    return [...this.entries];
+  }
+}
+
+/**
+ * Stores the path in the URL hash, e.g. https://example.com/#/level/3.
+ */
+export class HashRouterHistory implements RouterHistory {
+  public getPath(): string {
+    return window.location.hash.replace(/^#/, '') || '/';
+  }
+
+  public push(path: string): void {
+    window.history.pushState(null, '', `#${path}`);
+  }
+
+  public replace(path: string): void {
+    window.history.replaceState(null, '', `#${path}`);
+  }
+
+  public go(delta: number): void {
+    window.history.go(delta);
+  }
+
+  public listen(listener: PathListener): () => void {
+    const onHashChange = () => listener(this.getPath());
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }
+}
+
+/**
+ * Stores the path in the URL with the History API, e.g. https://example.com/level/3.
+ * The server must answer every routed path with the app.
+ */
+export class BrowserRouterHistory implements RouterHistory {
+  public getPath(): string {
+    return window.location.pathname + window.location.search;
+  }
+
+  public push(path: string): void {
+    window.history.pushState(null, '', path);
+  }
+
+  public replace(path: string): void {
+    window.history.replaceState(null, '', path);
+  }
+
+  public go(delta: number): void {
+    window.history.go(delta);
+  }
+
+  public listen(listener: PathListener): () => void {
+    const onPopState = () => listener(this.getPath());
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }
+}
@@ -2,26 +2,147 @@
  * KolownScene represents a single scene in the application.
  * It provides lifecycle methods and state management for the scene.
  */
-import { SceneLifecycle, SceneState, SceneData } from './types';
+import {
+  Clock,
+  SceneLifecycle,
+  SceneState,
+  SceneData,
+  SceneDataPolicy,
+  SceneGuardContext,
+  SceneGuardResult,
+  SceneInputEvent,
+  SceneOptions,
+  SceneStateHistoryEntry,
+  SceneVisualState,
+  TransitionDirection
+} from './types';
+import { canTransition } from './SceneStateMachine';
+import { SceneStateError } from './errors';
+import { systemClock } from './Scheduler';
+import { ResourceTracker } from './ResourceTracker';
+import { Store } from './Store';
+
+/**
+ * @typeParam TData - The shape of the scene's data, checked by setData and getData.
+ */
+export class KolownScene<TData extends object = SceneData> implements SceneLifecycle {
+  /**
+   * Number of state changes kept in each scene's history.
+   */
+  public static maxStateHistory = 50;
 
-export class KolownScene implements SceneLifecycle {
   public readonly name: string;
   public state: SceneState = 'inactive';
-  public data: SceneData = {};
+  public data: TData;
+  /**
+   * Whether data is kept when the scene exits or reset to the initial data.
+   */
+  public dataPolicy: SceneDataPolicy;
+  public strictStateTransitions = false;
+  public loadProgress = 0;
+  /**
+   * Multiplies the deltaTime this scene receives, on top of the manager's time scale.
+   */
+  public timeScale = 1;
+  /**
+   * Clock used to timestamp the state history. SceneManager sets it to its scheduler.
+   */
+  public clock: Clock = systemClock;
+  /**
+   * Timers, listeners and subscriptions released automatically when the scene exits or is destroyed.
+   */
+  public readonly resources = new ResourceTracker();
+  /**
+   * The store shared by every scene of the manager. SceneManager sets it when the scene is added.
+   */
+  public store: Store<any> | null = null;
+  private createData: () => TData;
+  private loadingPromise: Promise<void> | null = null;
+  private loaded = false;
+  private stateHistory: SceneStateHistoryEntry[] = [];
 
   /**
    * Constructor for KolownScene.
    * @param name - The unique name of the scene.
+   * @param options - Optional settings for the scene's data.
+   *   - data: The data the scene starts with and returns to on reset, or a function creating
+   *     it; use a function when the data holds arrays or objects that must start fresh (default: {}).
+   *   - dataPolicy: 'keep' keeps data across re-entry, 'reset' resets it every time
+   *     the scene exits (default: 'keep').
    */
-  constructor(name: string) {
+  constructor(name: string, options: SceneOptions<TData> = {}) {
     this.name = name;
+    const data = options.data ?? ({} as TData);
+    this.createData = typeof data === 'function' ? data : () => ({ ...data });
+    this.data = this.createData();
+    this.dataPolicy = options.dataPolicy ?? 'keep';
+  }
+
+  /**
+   * Loads the scene's assets before it is entered for the first time.
+   * @param _onProgress - Reports loading progress from 0 to 1.
+   * Override this method in subclasses to fetch assets, build meshes, etc.
+   */
+  public async preload(_onProgress: (progress: number) => void): Promise<void> {
+    // Override in subclasses
+  }
+
+  /**
+   * Called on a loading scene while another scene's preload is running.
+   * @param _progress - The loading progress of the other scene, from 0 to 1.
+   * @param _sceneName - The name of the scene being loaded.
+   * Override this method in subclasses to draw a progress bar or similar.
+   */
+  public onLoadProgress(_progress: number, _sceneName: string): void {
+    // Override in subclasses
+  }
+
+  /**
+   * Runs preload once. Concurrent callers share the same pending load.
+   * @param onProgress - Optional callback receiving loading progress from 0 to 1.
+   * @returns A promise that resolves once the scene is loaded.
+   */
+  public load(onProgress?: (progress: number) => void): Promise<void> {
+    if (this.loaded) {
+      return Promise.resolve();
+    }
+
+    if (!this.loadingPromise) {
+      const reportProgress = (progress: number) => {
+        this.loadProgress = progress;
+        onProgress?.(progress);
+      };
+
+      this.loadingPromise = this.preload(reportProgress).then(
+        () => {
+          this.loaded = true;
+          this.loadProgress = 1;
+          this.loadingPromise = null;
+        },
+        error => {
+          this.loadingPromise = null;
+          throw error;
+        }
+      );
+    }
+
+    return this.loadingPromise;
+  }
+
+  /**
+   * Checks if the scene has finished preloading.
+   * @returns True if preload has completed, false otherwise.
+   */
+  public isLoaded(): boolean {
+    return this.loaded;
   }
 
   /**
    * Called when the scene is entered.
+   * @param _params - The params passed to switchTo, pushScene or switchLayerTo.
    * Override this method in subclasses to define custom behavior.
    */
-  public onEnter(): void | Promise<void> {
+  public onEnter(_params?: unknown): void | Promise<void> {
     // Override in subclasses
   }
 
@@ -33,6 +154,15 @@ export class KolownScene implements SceneLifecycle {
     // Override in subclasses
   }
 
+  /**
+   * Called once when the scene is removed from its manager or the manager is destroyed,
+   * after onExit if the scene was still shown. Tracked resources are released afterwards.
+   * Override this method in subclasses to free what the constructor or preload created.
+   */
+  public onDestroy(): void | Promise<void> {
+    // Override in subclasses
+  }
+
   /**
    * Called every frame while the scene is active.
    * @param deltaTime - The time elapsed since the last update.
@@ -42,6 +172,25 @@ export class KolownScene implements SceneLifecycle {
     // Override in subclasses
   }
 
+  /**
+   * Called once per fixed step while the scene is active, when the manager runs a fixed timestep.
+   * @param _step - The fixed step size in milliseconds; the same on every call.
+   * Override this method in subclasses for physics and other deterministic logic.
+   */
+  public onFixedUpdate(_step: number): void {
+    // Override in subclasses
+  }
+
+  /**
+   * Called every frame after the scene has been updated.
+   * @param _alpha - How far the frame is between the last fixed step and the next one, from 0 to 1.
+   *   Always 1 when the manager runs a variable timestep.
+   * Override this method in subclasses to interpolate what is drawn between fixed steps.
+   */
+  public onRender(_alpha: number): void {
+    // Override in subclasses
+  }
+
   /**
    * Called when the scene is paused.
    * Override this method in subclasses to define custom behavior.
@@ -52,20 +201,108 @@ export class KolownScene implements SceneLifecycle {
 
   /**
    * Called when the scene is resumed from a paused state.
+   * @param _result - The value passed to popScene when a scene pushed over this one returns.
    * Override this method in subclasses to define custom behavior.
    */
-  public onResume(): void {
+  public onResume(_result?: unknown): void {
+    // Override in subclasses
+  }
+
+  /**
+   * Called every frame while a transition into or out of the scene is running.
+   * @param _progress - The eased transition progress, from 0 to 1.
+   * @param _direction - 'in' when the scene is entering, 'out' when it is exiting.
+   * @param _visual - Alpha, offset, scale, clip and overlay from the transition's effect, if it has one.
+   * Override this method in subclasses to render fades, slides and similar effects.
+   */
+  public onTransitionUpdate(_progress: number, _direction: TransitionDirection, _visual?: SceneVisualState): void {
+    // Override in subclasses
+  }
+
+  /**
+   * Called with input while the scene is active and has focus, or when a scene above it let the input through.
+   * @param _event - The input and the actions bound to it.
+   * @returns true to consume the input; anything else passes it on to the next active scene below.
+   * Override this method in subclasses instead of adding DOM listeners in each scene.
+   */
+  public onInput(_event: SceneInputEvent): boolean | void {
+    return false;
+  }
+
+  /**
+   * Called before a switch or push enters the scene, before anything is loaded or run.
+   * @param _context - The scene being left, this scene, the params and how the switch was started.
+   * @returns true to allow, false to deny, or { redirect, params } to go to another scene instead.
+   * Override this method in subclasses, e.g. to send unauthenticated users to a login scene.
+   */
+  public canEnter(_context: SceneGuardContext): SceneGuardResult | Promise<SceneGuardResult> {
+    return true;
+  }
+
+  /**
+   * Called before a switch leaves the scene, before the scene being entered is loaded.
+   * Not called by pushScene, since the scene stays on the stack.
+   * @param _context - This scene, the scene being entered, its params and how the switch was started.
+   * @returns true to allow, false to deny, or { redirect, params } to go to another scene instead.
+   * Override this method in subclasses, e.g. to keep an editor open while it has unsaved changes.
+   */
+  public canExit(_context: SceneGuardContext): SceneGuardResult | Promise<SceneGuardResult> {
+    return true;
+  }
+
+  /**
+   * Returns custom state to include when the scene graph is saved.
+   * The result must be JSON-serializable. The scene's data is saved separately.
+   * Override this method in subclasses to save state that lives outside data.
+   * @returns The custom state, or undefined to save nothing.
+   */
+  public serialize(): unknown {
+    return undefined;
+  }
+
+  /**
+   * Restores custom state returned by serialize when a saved scene graph is loaded.
+   * Called after data is restored and before the scene is entered.
+   * @param _state - The value serialize returned when the graph was saved.
+   * Override this method in subclasses to restore state that lives outside data.
+   */
+  public deserialize(_state: unknown): void {
     // Override in subclasses
   }
 
   /**
    * Sets the state of the scene.
+   * Illegal transitions throw a SceneStateError in strict mode and log a warning otherwise.
    * @param state - The new state of the scene.
+   * @throws SceneStateError if the transition is illegal and strictStateTransitions is enabled.
    */
   public setState(state: SceneState): void {
+    const from = this.state;
+    const legal = canTransition(from, state);
+
+    if (!legal) {
+      const error = new SceneStateError(this.name, from, state);
+      if (this.strictStateTransitions) {
+        throw error;
+      }
+      console.warn(error.message);
+    }
+
+    this.stateHistory.push({ from, to: state, timestamp: this.clock.now(), legal });
+    if (this.stateHistory.length > KolownScene.maxStateHistory) {
+      this.stateHistory.splice(0, this.stateHistory.length - KolownScene.maxStateHistory);
+    }
     this.state = state;
   }
 
+  /**
+   * Gets the most recent state changes, oldest first.
+   * @returns A copy of the state history.
+   */
+  public getStateHistory(): SceneStateHistoryEntry[] {
+    return [...this.stateHistory];
+  }
+
   /**
    * Checks if the scene is currently active.
    * @returns True if the scene is active, false otherwise.
@@ -87,7 +324,7 @@ export class KolownScene implements SceneLifecycle {
    * @param key - The key to store the value under.
    * @param value - The value to store.
    */
-  public setData(key: string, value: any): void {
+  public setData<K extends keyof TData>(key: K, value: TData[K]): void {
     this.data[key] = value;
   }
 
@@ -96,7 +333,28 @@ export class KolownScene implements SceneLifecycle {
    * @param key - The key of the value to retrieve.
    * @returns The value associated with the key, or undefined if not found.
    */
-  public getData(key: string): any {
+  public getData<K extends keyof TData>(key: K): TData[K] {
     return this.data[key];
   }
+
+  /**
+   * Puts the scene's data back to the data it was constructed with.
+   * Plain initial data is copied shallowly, so nested objects are shared between resets.
+   */
+  public resetData(): void {
+    this.data = this.createData();
+  }
+
+  /**
+   * Gets the store shared by every scene of the manager.
+   * @typeParam TState - The shape of the store's state.
+   * @returns The manager's store.
+   * @throws Error if the scene has not been added to a SceneManager.
+   */
+  public getStore<TState extends object = Record<string, any>>(): Store<TState> {
+    if (!this.store) {
+      throw new Error(`Scene "${this.name}" has not been added to a SceneManager`);
+    }
+    return this.store;
+  }
 }
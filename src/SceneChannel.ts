@@ -0,0 +1,54 @@
+import { EventEmitter, EventListener } from './EventEmitter';
+
+/**
+ * A typed two-way message channel to a background scene. Other scenes send
+ * commands and listen for events; the background scene handles the commands
+ * and emits the events. Both maps are interfaces from message names to
+ * payload types.
+ */
+export class SceneChannel<TCommands extends object, TEvents extends object> {
+  private commands = new EventEmitter<TCommands>();
+  private events = new EventEmitter<TEvents>();
+
+  /**
+   * Sends a command to the background scene.
+   * @param command - The name of the command.
+   * @param payload - The typed command payload.
+   * @returns True if a handler received the command, false if nothing handles it right now.
+   */
+  public send<K extends keyof TCommands>(command: K, payload: TCommands[K]): boolean {
+    const handled = this.commands.hasListeners(command);
+    this.commands.emit(command, payload);
+    return handled;
+  }
+
+  /**
+   * Handles a command. Called by the background scene, usually from onEnter with
+   * the disposer added to its resources.
+   * @param command - The name of the command.
+   * @param handler - Called with the typed payload every time the command is sent.
+   * @returns A disposer that removes the handler.
+   */
+  public handle<K extends keyof TCommands>(command: K, handler: EventListener<TCommands[K]>): () => void {
+    return this.commands.on(command, handler);
+  }
+
+  /**
+   * Emits an event to every listener. Called by the background scene.
+   * @param event - The name of the event.
+   * @param payload - The typed event payload.
+   */
+  public emit<K extends keyof TEvents>(event: K, payload: TEvents[K]): void {
+    this.events.emit(event, payload);
+  }
+
+  /**
+   * Listens for events from the background scene.
+   * @param event - The name of the event.
+   * @param listener - Called with the typed payload every time the event is emitted.
+   * @returns A disposer that removes the listener.
+   */
+  public on<K extends keyof TEvents>(event: K, listener: EventListener<TEvents[K]>): () => void {
+    return this.events.on(event, listener);
+  }
+}
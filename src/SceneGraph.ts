@@ -0,0 +1,49 @@
+import { SceneGraphMigration, SerializedSceneGraph } from './types';
+
+/**
+ * Default version written into serialized scene graphs.
+ * Applications that change the shape of their saved scene data pass their own
+ * version to serialize and deserialize, along with migrations for older saves.
+ */
+export const SCENE_GRAPH_VERSION = 1;
+
+/**
+ * Brings a saved scene graph up to the target version by running each
+ * migration in turn, starting from the graph's own version.
+ * @param graph - The parsed save data.
+ * @param migrations - Migrations keyed by the version they upgrade from.
+ * @param targetVersion - The version the caller understands (default: SCENE_GRAPH_VERSION).
+ * @returns The graph at the target version.
+ * @throws Error if the graph is newer than the target or a migration is missing.
+ */
+export function migrateSceneGraph(
+  graph: any,
+  migrations: Record<number, SceneGraphMigration> = {},
+  targetVersion = SCENE_GRAPH_VERSION
+): SerializedSceneGraph {
+  let migrated = graph;
+  let version: number = migrated?.version;
+
+  if (typeof version !== 'number') {
+    throw new Error('Scene graph has no version');
+  }
+
+  if (version > targetVersion) {
+    throw new Error(`Scene graph version ${version} is newer than supported version ${targetVersion}`);
+  }
+
+  while (version < targetVersion) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`No migration from scene graph version ${version}`);
+    }
+
+    migrated = migrate(migrated);
+    if (migrated?.version !== version + 1) {
+      throw new Error(`Migration from scene graph version ${version} must produce version ${version + 1}`);
+    }
+    version = migrated.version;
+  }
+
+  return migrated;
+}
@@ -0,0 +1,211 @@
+import { SceneManager } from './SceneManager';
+import { systemClock } from './Scheduler';
+import {
+  Clock,
+  InspectedScene,
+  InspectedTransition,
+  InspectorEventRecord,
+  InspectorSnapshot,
+  SceneInspectorOptions,
+  SceneManagerEvents
+} from './types';
+
+type EventSummaries = {
+  [K in keyof SceneManagerEvents]?: (payload: SceneManagerEvents[K]) => string;
+};
+
+/**
+ * The events the inspector records. Per-frame events such as transitionProgress
+ * and frameProfiled are left out so they do not flood the log.
+ */
+const EVENT_SUMMARIES: EventSummaries = {
+  sceneAdded: ({ scene }) => `${scene.name} added`,
+  sceneRemoved: ({ scene }) => `${scene.name} removed`,
+  beforeSwitch: ({ from, to }) => `switching ${from?.name ?? '(none)'} -> ${to.name}`,
+  transitionStart: ({ from, to, duration }) => `transition ${from?.name ?? '(none)'} -> ${to.name} (${duration} ms)`,
+  transitionEnd: ({ from, to, cancelled, reversed }) =>
+    `transition ${from?.name ?? '(none)'} -> ${to.name} ${cancelled ? 'cancelled' : reversed ? 'reversed' : 'done'}`,
+  paused: ({ scene }) => `${scene.name} paused`,
+  resumed: ({ scene }) => `${scene.name} resumed`,
+  stateChanged: ({ scene, previousState, state }) => `${scene.name}: ${previousState} -> ${state}`,
+  navigated: ({ scene, action }) => `${action} to ${scene.name}`,
+  frameBudgetExceeded: ({ duration, budget }) => `frame took ${duration.toFixed(1)} ms (budget ${budget.toFixed(1)} ms)`
+};
+
+/**
+ * A read-and-drive view of a SceneManager for debugging: snapshots of every
+ * scene, the stack, the running transition and recent events, plus commands to
+ * switch, pause, resume and step. Used by InspectorOverlay and the devtools
+ * bridge; import it from the devtools entry so production builds leave it out.
+ */
+export class SceneInspector {
+  private events: InspectorEventRecord[] = [];
+  private listeners: Set<() => void> = new Set();
+  private disposers: Array<() => void> = [];
+  private transitionScenes: { from: string | null; to: string } | null = null;
+  private readonly maxEvents: number;
+  private readonly clock: Clock;
+
+  /**
+   * Constructor for SceneInspector. Starts recording the manager's events straight away.
+   * @param sceneManager - The manager to inspect.
+   * @param options - Configuration options for the inspector.
+   *   - maxEvents: Number of recent events kept (default: 50).
+   *   - clock: Clock that timestamps the events (default: Date.now).
+   */
+  constructor(private sceneManager: SceneManager<any, any>, options: SceneInspectorOptions = {}) {
+    this.maxEvents = options.maxEvents ?? 50;
+    this.clock = options.clock ?? systemClock;
+
+    for (const type of Object.keys(EVENT_SUMMARIES) as Array<keyof SceneManagerEvents>) {
+      this.disposers.push(this.sceneManager.on(type, payload => this.record(type, payload)));
+    }
+    this.disposers.push(this.sceneManager.on('transitionStart', ({ from, to }) => {
+      this.transitionScenes = { from: from?.name ?? null, to: to.name };
+    }));
+  }
+
+  /**
+   * Reads the manager's current state.
+   * @returns Every scene with its state and a copy of its data, the stack, the running
+   *   transition, the pause and time scale settings, recent events and profiler measurements.
+   */
+  public getSnapshot(): InspectorSnapshot {
+    const layers = this.sceneManager.getLayerOrder();
+    const currentScene = this.sceneManager.getCurrentScene();
+    const backgroundScenes = this.sceneManager.getBackgroundScenes();
+
+    const scenes: InspectedScene[] = [];
+    for (const name of this.sceneManager.getScenes()) {
+      const scene = this.sceneManager.getScene(name);
+      if (!scene) continue;
+
+      const layer = layers.find(other => other.scene === scene);
+      scenes.push({
+        name,
+        state: scene.state,
+        data: { ...scene.data },
+        current: scene === currentScene,
+        layer: layer ? layer.name : null,
+        background: backgroundScenes.includes(name)
+      });
+    }
+
+    let stack: string[] | null;
+    try {
+      stack = this.sceneManager.getSceneStack().map(scene => scene.name);
+    } catch (_error) {
+      // The manager was created with inspectableStack: false
+      stack = null;
+    }
+
+    return {
+      scenes,
+      stack,
+      transition: this.getTransition(),
+      paused: this.sceneManager.isPaused(),
+      timeScale: this.sceneManager.getTimeScale(),
+      events: this.getEvents(),
+      performance: this.sceneManager.getProfiler()?.getSnapshot() ?? null
+    };
+  }
+
+  /**
+   * Gets the recorded events.
+   * @returns The most recent events, oldest first.
+   */
+  public getEvents(): InspectorEventRecord[] {
+    return [...this.events];
+  }
+
+  /**
+   * Forgets the recorded events.
+   */
+  public clearEvents(): void {
+    this.events = [];
+    this.notify();
+  }
+
+  /**
+   * Subscribes to changes: called whenever an event is recorded.
+   * @param listener - Called with no arguments; read getSnapshot for the new state.
+   * @returns A disposer that removes the listener.
+   */
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Switches to a scene. Guards, transitions and the switch policy apply as usual.
+   * @param sceneName - The scene to switch to.
+   * @param params - Params for the scene's onEnter.
+   * @returns A promise that resolves once the switch completes.
+   */
+  public switchTo(sceneName: string, params?: unknown): Promise<void> {
+    return this.sceneManager.switchTo(sceneName, params);
+  }
+
+  /**
+   * Pauses the whole manager.
+   */
+  public pause(): void {
+    this.sceneManager.pause();
+    this.notify();
+  }
+
+  /**
+   * Resumes a paused manager.
+   */
+  public resume(): void {
+    this.sceneManager.resume();
+    this.notify();
+  }
+
+  /**
+   * Runs frames by hand, usually while the manager is paused.
+   * @param frames - The number of frames to run (default: 1).
+   */
+  public step(frames = 1): void {
+    this.sceneManager.step(frames);
+    this.notify();
+  }
+
+  /**
+   * Stops recording events and drops every listener.
+   */
+  public dispose(): void {
+    this.disposers.forEach(dispose => dispose());
+    this.disposers = [];
+    this.listeners.clear();
+  }
+
+  private getTransition(): InspectedTransition | null {
+    const transition = this.sceneManager.getActiveTransition();
+    if (!transition || !this.transitionScenes) return null;
+
+    return {
+      ...this.transitionScenes,
+      progress: transition.getProgress(),
+      paused: transition.isPaused(),
+      reversed: transition.isReversed()
+    };
+  }
+
+  private record<K extends keyof SceneManagerEvents>(type: K, payload: SceneManagerEvents[K]): void {
+    const summarize = EVENT_SUMMARIES[type] as ((payload: SceneManagerEvents[K]) => string) | undefined;
+    if (!summarize) return;
+
+    this.events.push({ type, time: this.clock.now(), summary: summarize(payload) });
+    if (this.events.length > this.maxEvents) {
+      this.events.shift();
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    Array.from(this.listeners).forEach(listener => listener());
+  }
+}
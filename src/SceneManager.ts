@@ -4,16 +4,115 @@
  */
 
 import { KolownScene } from './Scene';
+import { BackgroundScene } from './BackgroundScene';
 import { SceneTransition } from './SceneTransition';
-import { SceneManagerOptions, SceneTransitionOptions } from './types';
+import { SceneError, SceneSwitchCancelledError, SceneSwitchDeniedError, SceneSwitchRejectedError } from './errors';
+import { EventEmitter, EventListener } from './EventEmitter';
+import { InputDispatcher } from './InputDispatcher';
+import { SceneProfiler } from './SceneProfiler';
+import { SCENE_GRAPH_VERSION, migrateSceneGraph } from './SceneGraph';
+import { SceneFactory, SceneRegistry } from './SceneRegistry';
+import { createDefaultScheduler } from './Scheduler';
+import { createDefaultPageEnvironment } from './PageEnvironment';
+import { Store } from './Store';
+import {
+  AutoPauseOptions,
+  BeforeSwitchEvent,
+  DeserializeOptions,
+  NavigationAction,
+  PageEnvironment,
+  ProfilerOptions,
+  SceneGuardContext,
+  SceneHistoryEntry,
+  SceneInputEvent,
+  SceneLayer,
+  SceneManagerEvents,
+  SceneManagerOptions,
+  SceneMiddleware,
+  SceneErrorPhase,
+  SceneName,
+  SceneParamMap,
+  SceneRedirect,
+  SceneState,
+  SceneParamsArgs,
+  SceneSwitchArgs,
+  SceneTransitionOptions,
+  Scheduler,
+  SerializeOptions,
+  SerializedSceneGraph,
+  SwitchOptions,
+  SwitchPolicy,
+  TransitionEndEvent,
+  TransitionStartEvent
+} from './types';
+
+/**
+ * Most redirects one switch may follow before guards are assumed to loop.
+ */
+const MAX_GUARD_REDIRECTS = 10;
+
+interface LayerSlot {
+  name: string;
+  zIndex: number;
+  scene: KolownScene | null;
+}
+
+interface SwitchTicket {
+  sceneName: string;
+  cancelled: boolean;
+  cancellation: Promise<never>;
+  cancel(): void;
+}
+
+/**
+ * @typeParam TScenes - Maps scene names to the params their onEnter takes.
+ * @typeParam TState - The shape of the shared store's state.
+ */
+export class SceneManager<TScenes extends object = SceneParamMap, TState extends object = Record<string, any>> {
+  /**
+   * Name of the built-in layer that holds the scene stack.
+   */
+  public static readonly MAIN_LAYER = 'main';
 
-export class SceneManager {
   private scenes: Map<string, KolownScene> = new Map();
   private currentScene: KolownScene | null = null;
   private previousScene: KolownScene | null = null;
+  private coveredScenes: KolownScene[] = [];
+  private layers: LayerSlot[] = [{ name: SceneManager.MAIN_LAYER, zIndex: 0, scene: null }];
   private activeTransition: SceneTransition | null = null;
-  private lastUpdateTime: number = 0;
+  private outgoingScene: KolownScene | null = null;
+  private switchTickets: SwitchTicket[] = [];
+  private switchQueue: Promise<void> = Promise.resolve();
+  private events = new EventEmitter<SceneManagerEvents>();
+  private registry: SceneRegistry;
+  private pendingScenes: Map<string, Promise<KolownScene>> = new Map();
+  private lazySceneUsage: Map<KolownScene, number> = new Map();
+  private lastUpdateTime: number | null = null;
+  private fixedStepAccumulators = new WeakMap<KolownScene, number>();
+  private timeScale = 1;
+  private paused = false;
+  private enterParams = new WeakMap<KolownScene, unknown>();
+  private navigationHistory: SceneHistoryEntry[] = [];
+  private historyIndex = -1;
+  private middleware: SceneMiddleware[] = [];
+  private recoveringFromError = false;
+  private destroyed = false;
+  private backgroundScenes: BackgroundScene<any, any>[] = [];
+  private backgroundTickTimes = new WeakMap<KolownScene, number>();
+  private pageHidden = false;
+  private cancelHiddenTick: (() => void) | null = null;
+  private removePageListener: (() => void) | null = null;
+  private pageEnvironment: PageEnvironment;
+  private autoPaused = false;
+  private autoPausedScenes: Set<KolownScene> = new Set();
+  private autoPausedTransition = false;
+  private profiler: SceneProfiler | null = null;
   private isUpdating: boolean = false;
+  private cancelFrame: (() => void) | null = null;
+  private scheduler: Scheduler;
+  private store: Store<TState>;
+  private input: InputDispatcher;
+  private focusedScene: KolownScene | null = null;
 
   /**
    * Constructor for SceneManager.
@@ -21,14 +120,61 @@ export class SceneManager {
    *   - enableTransitions: Enable/disable scene transitions (default: true).
    *   - defaultTransitionDuration: Default transition duration in milliseconds (default: 1000).
    *   - autoUpdate: Automatically start the update loop (default: true).
+   *   - updateCoveredScenes: Keep calling onUpdate on scenes covered by the stack (default: false).
+   *   - inspectableStack: Allow the scene stack to be read with getSceneStack (default: true).
+   *   - loadingScene: Name of a scene to show while a slow preload runs (default: none).
+   *   - loadingSceneDelay: Milliseconds a preload may take before the loading scene is shown (default: 200).
+   *   - switchPolicy: What a switch does while another is running: 'queue', 'cancel' or 'reject' (default: 'queue').
+   *   - strictStateTransitions: Throw on illegal scene state changes instead of warning (default: scene's own setting).
+   *   - registry: SceneRegistry used to recreate scenes by type when a saved scene graph is loaded,
+   *     and to build lazily registered scenes (default: a new registry).
+   *   - disposePolicy: When lazily built scenes that are not shown get removed again:
+   *     maxInstances keeps at most that many, least recently used removed first, and
+   *     keepAlive removes them after that many milliseconds unused (default: never).
+   *   - fixedTimestep: Step size in milliseconds; when set, scenes also get onFixedUpdate once per
+   *     elapsed step and onRender with an interpolation alpha (default: none, variable timestep).
+   *   - maxFixedSteps: Most fixed steps run in one update; time beyond that is dropped (default: 5).
+   *   - timeScale: Multiplies every scene's deltaTime, e.g. 0.25 for slow motion or 0 to freeze (default: 1).
+   *   - scaleTransitions: Apply the time scale to transition progress too (default: false).
+   *   - maxHistory: Number of entries kept in the navigation history (default: 50).
+   *   - onError: Called with a SceneError whenever a lifecycle hook throws (default: frame hook
+   *     errors are logged with console.error; switch errors only reject the switch).
+   *   - errorScene: Name of a scene to show, with { error } as params, when a scene throws in a
+   *     frame hook or a failed switch has no earlier scene to roll back to (default: none).
+   *   - scheduler: Clock and frame/timer scheduler behind the update loop, transitions and the
+   *     loading scene delay (default: requestAnimationFrame when available, timers otherwise).
+   *   - store: Store shared by every scene, e.g. new Store({ score: 0 }) (default: an empty store).
+   *   - inputActions: Initial action bindings for the input dispatcher, e.g. { jump: ['Space'] } (default: none).
+   *   - autoPause: Pause the shown scenes while the page is hidden, and with { onBlur: true } also
+   *     while the window has lost focus, then resume them afterwards (default: false).
+   *   - pageEnvironment: Where page visibility and focus are read from (default: the browser's
+   *     document when there is one).
+   *   - profiler: Time every frame, scene hook and transition; true or the profiler's options,
+   *     e.g. { frameBudget: 8 } (default: false, no instrumentation).
    */
   constructor(private options: SceneManagerOptions = {}) {
     this.options = {
       enableTransitions: true,
       defaultTransitionDuration: 1000,
       autoUpdate: true,
+      updateCoveredScenes: false,
+      inspectableStack: true,
+      loadingSceneDelay: 200,
+      switchPolicy: 'queue',
+      maxFixedSteps: 5,
+      maxHistory: 50,
       ...options
     };
+    this.registry = this.options.registry ?? new SceneRegistry();
+    this.scheduler = this.options.scheduler ?? createDefaultScheduler();
+    this.store = this.options.store ?? new Store({} as TState);
+    this.input = new InputDispatcher(event => this.routeInput(event), this.options.inputActions);
+    this.pageEnvironment = this.options.pageEnvironment ?? createDefaultPageEnvironment();
+    if (this.options.profiler) {
+      this.enableProfiler(this.options.profiler === true ? {} : this.options.profiler);
+    }
+    this.updatePageWatch();
+    this.setTimeScale(this.options.timeScale ?? 1);
 
     if (this.options.autoUpdate) {
       this.startUpdateLoop();
@@ -37,182 +183,2233 @@ export class SceneManager {
 
   /**
    * Adds a scene to the manager.
+   * If strictStateTransitions is set on the manager, it is applied to the scene.
    * @param scene - The scene to add.
    */
   public addScene(scene: KolownScene): void {
+    this.assertNotDestroyed();
+    if (this.options.strictStateTransitions !== undefined) {
+      scene.strictStateTransitions = this.options.strictStateTransitions;
+    }
+    scene.clock = this.scheduler;
+    scene.resources.scheduler = this.scheduler;
+    scene.store = this.store;
     this.scenes.set(scene.name, scene);
+    this.events.emit('sceneAdded', { scene });
   }
 
   /**
-   * Removes a scene from the manager.
+   * Removes a scene from the manager and destroys it.
+   * The scene leaves the stack and its layer straight away; removing the current
+   * scene reveals and resumes the scene below it. A scene that was still shown then
+   * gets onExit, and every removed scene gets onDestroy and has its resources released.
+   * A transition from the scene jumps to its end; a transition to it is cancelled,
+   * and the switch that started it rejects with SceneSwitchCancelledError.
    * @param sceneName - The name of the scene to remove.
+   * @returns A promise that resolves once the scene is torn down.
+   * @throws SceneError if onExit or onDestroy fails; the scene is removed anyway.
    */
-  public removeScene(sceneName: string): void {
+  public async removeScene(sceneName: string): Promise<void> {
     const scene = this.scenes.get(sceneName);
+    if (!scene) return;
+
+    this.settleTransitionOf(scene);
+    const shown = this.detachScene(scene);
+    try {
+      await this.teardownScene(scene, shown);
+    } catch (error) {
+      this.reportError(error, false);
+      throw error;
+    }
+  }
+
+  /**
+   * Finishes the running transition straight away if it involves the scene, so it
+   * cannot settle the scene again once it is removed. The running switch owns the
+   * transition; it is cancelled when the scene is the one being entered.
+   */
+  private settleTransitionOf(scene: KolownScene): void {
+    const transition = this.activeTransition;
+    if (!transition || (scene !== this.currentScene && scene !== this.outgoingScene)) return;
+
     if (scene === this.currentScene) {
-      this.currentScene = null;
+      this.switchTickets[0]?.cancel();
+    }
+    transition.complete();
+  }
+
+  /**
+   * Takes a scene off the stack, out of its layer and out of the scene map.
+   * @returns True if the scene was shown and has been moved to 'exiting'.
+   */
+  private detachScene(scene: KolownScene): boolean {
+    if (scene === this.currentScene) {
+      this.currentScene = this.coveredScenes.pop() ?? null;
+      if (this.currentScene) {
+        try {
+          this.resumeScene(this.currentScene);
+        } catch (error) {
+          // The removal goes ahead; the revealed scene stays on top
+          this.reportError(error, true);
+        }
+      }
+    } else {
+      this.coveredScenes = this.coveredScenes.filter(covered => covered !== scene);
+      for (const layer of this.layers) {
+        if (layer.scene === scene) {
+          layer.scene = null;
+        }
+      }
+    }
+
+    if (this.backgroundScenes.some(running => running === scene)) {
+      this.backgroundScenes = this.backgroundScenes.filter(running => running !== scene);
+      this.updatePageWatch();
+    }
+
+    const shown = scene.state === 'active' || scene.state === 'paused' || scene.state === 'entering';
+    if (shown) {
+      this.setSceneState(scene, 'exiting');
+    }
+
+    if (scene === this.focusedScene) {
+      this.focusedScene = null;
+    }
+
+    this.scenes.delete(scene.name);
+    this.lazySceneUsage.delete(scene);
+    this.events.emit('sceneRemoved', { scene });
+    return shown;
+  }
+
+  /**
+   * Runs onExit for a detached scene that was still shown, then onDestroy, then
+   * releases its resources. Every step runs even if an earlier one fails.
+   * @throws SceneError from the first hook that failed.
+   */
+  private async teardownScene(scene: KolownScene, exit: boolean): Promise<void> {
+    let failure: unknown = null;
+    if (exit) {
+      await this.runHook(scene, 'onExit', () => scene.onExit()).catch(error => {
+        failure = error;
+      });
+      this.setSceneState(scene, 'inactive');
+    }
+
+    await this.runHook(scene, 'onDestroy', () => scene.onDestroy()).catch(error => {
+      failure = failure ?? error;
+    });
+    scene.resources.dispose();
+
+    if (failure) {
+      throw failure;
+    }
+  }
+
+  /**
+   * Registers a scene that is built on first use, e.g. from a dynamic import().
+   * The factory is stored in the manager's registry; switchTo, pushScene and
+   * switchLayerTo build the scene the first time it is needed.
+   * @param sceneName - The name of the scene.
+   * @param factory - A sync or async function returning a scene, a scene class or a module
+   *   whose default export is a scene class.
+   */
+  public registerLazyScene(sceneName: string, factory: SceneFactory): void {
+    this.registry.registerFactory(sceneName, factory);
+  }
+
+  /**
+   * Removes lazily built scenes that are not shown, following the disposePolicy option.
+   * Removed scenes are built again by their factory the next time they are needed.
+   * Called after every switch and, with keepAlive set, on every update.
+   * @returns The names of the removed scenes.
+   */
+  public disposeIdleScenes(): string[] {
+    const { maxInstances, keepAlive } = this.options.disposePolicy ?? {};
+    if (maxInstances === undefined && keepAlive === undefined) return [];
+    if (this.switchTickets.length > 0) return [];
+
+    const now = this.scheduler.now();
+    const idleScenes = Array.from(this.lazySceneUsage.entries())
+      .filter(([scene]) => this.isIdle(scene))
+      .sort(([, a], [, b]) => a - b);
+
+    const excess = maxInstances === undefined ? 0 : this.lazySceneUsage.size - maxInstances;
+    const disposed = idleScenes
+      .filter(([, lastUsed], index) => index < excess || (keepAlive !== undefined && now - lastUsed >= keepAlive))
+      .map(([scene]) => scene);
+
+    for (const scene of disposed) {
+      this.detachScene(scene);
+      this.teardownScene(scene, false).catch(error => this.reportError(error, true));
     }
-    this.scenes.delete(sceneName);
+    return disposed.map(scene => scene.name);
+  }
+
+  private isIdle(scene: KolownScene): boolean {
+    return scene.state === 'inactive'
+      && !this.getSceneStackUnchecked().includes(scene)
+      && !this.layers.some(layer => layer.scene === scene)
+      && scene.name !== this.options.loadingScene;
   }
 
   /**
-   * Switches to a specified scene.
+   * Switches to a specified scene, replacing the scene on top of the stack.
+   * The current scene's canExit, the middleware and the new scene's canEnter run
+   * first; any of them may deny the switch or redirect it to another scene.
+   * The switch is recorded in the navigation history; with the replace option it
+   * overwrites the current entry instead of adding one.
    * @param sceneName - The name of the scene to switch to.
-   * @param transitionOptions - Optional transition options.
+   * @param args - The params passed to the scene's onEnter (required when the scene map
+   *   says so), followed by optional transition options, the concurrency policy and
+   *   the history replace flag for this call. Options passed second, as before params
+   *   existed, are handed to onEnter as params instead.
    * @throws Error if the specified scene is not found.
+   * @throws SceneSwitchRejectedError if another switch is running and the policy is 'reject'.
+   * @throws SceneSwitchCancelledError if a later switch cancels this one.
+   * @throws SceneSwitchDeniedError if canExit, a middleware or canEnter denies the switch.
    */
-  public async switchTo(
-    sceneName: string, 
-    transitionOptions?: SceneTransitionOptions
+  public async switchTo<K extends SceneName<TScenes>>(
+    sceneName: K, 
+    ...args: SceneSwitchArgs<TScenes[K]>
   ): Promise<void> {
-    const newScene = this.scenes.get(sceneName);
-    if (!newScene) {
-      throw new Error(`Scene "${sceneName}" not found`);
-    }
+    const [params, switchOptions] = args;
+    await this.performSwitch(sceneName, params, switchOptions, switchOptions?.replace ? 'replace' : 'push');
+  }
 
-    if (this.currentScene === newScene) {
-      return; // Already on this scene
-    }
+  /**
+   * Goes back to the previous entry in the navigation history.
+   * @param switchOptions - Optional transition options and concurrency policy.
+   * @throws Error if there is no earlier entry.
+   */
+  public async back(switchOptions?: SwitchOptions): Promise<void> {
+    await this.go(-1, switchOptions);
+  }
 
-    this.previousScene = this.currentScene;
+  /**
+   * Goes forward to the next entry in the navigation history, after back.
+   * @param switchOptions - Optional transition options and concurrency policy.
+   * @throws Error if there is no later entry.
+   */
+  public async forward(switchOptions?: SwitchOptions): Promise<void> {
+    await this.go(1, switchOptions);
+  }
 
-    if (this.options.enableTransitions && (this.currentScene || transitionOptions)) {
-      await this.transitionToScene(newScene, transitionOptions);
-    } else {
-      await this.directSwitchToScene(newScene);
+  /**
+   * Checks if back has an entry to go to.
+   * @returns True if there is an earlier history entry, false otherwise.
+   */
+  public canGoBack(): boolean {
+    return this.historyIndex > 0;
+  }
+
+  /**
+   * Checks if forward has an entry to go to.
+   * @returns True if there is a later history entry, false otherwise.
+   */
+  public canGoForward(): boolean {
+    return this.historyIndex < this.navigationHistory.length - 1;
+  }
+
+  /**
+   * Gets the navigation history, oldest first. Only switchTo, back and forward
+   * are recorded; pushScene and popScene are not.
+   * @returns A copy of the history entries.
+   */
+  public getHistory(): SceneHistoryEntry[] {
+    return this.navigationHistory.map(entry => ({ ...entry }));
+  }
+
+  /**
+   * Gets the position of the current scene in the navigation history.
+   * @returns The index of the current entry, or -1 if nothing was navigated to yet.
+   */
+  public getHistoryIndex(): number {
+    return this.historyIndex;
+  }
+
+  private async go(offset: number, switchOptions?: SwitchOptions): Promise<void> {
+    const index = this.historyIndex + offset;
+    const entry = this.navigationHistory[index];
+    if (!entry) {
+      throw new Error(offset < 0 ? 'Cannot go back: no earlier history entry' : 'Cannot go forward: no later history entry');
     }
+    await this.performSwitch(entry.sceneName, entry.params, switchOptions, offset < 0 ? 'back' : 'forward', index);
   }
 
-  private async transitionToScene(
-    newScene: KolownScene, 
-    transitionOptions?: SceneTransitionOptions
+  private async performSwitch(
+    sceneName: string,
+    params: unknown,
+    switchOptions: SwitchOptions | undefined,
+    action: NavigationAction,
+    historyIndex?: number
   ): Promise<void> {
-    const options = {
-      duration: this.options.defaultTransitionDuration,
-      ...transitionOptions
-    };
+    this.assertNotDestroyed();
+    this.assertSceneExists(sceneName);
+    const { policy, ...transitionOptions } = switchOptions ?? {};
 
-    return new Promise<void>((resolve) => {
-      this.activeTransition = new SceneTransition({
-        ...options,
-        onComplete: () => {
-          this.activeTransition = null;
-          resolve();
+    await this.runSwitch(sceneName, async ticket => {
+      const requestedScene = await this.whileCancelable(ticket, this.resolveScene(sceneName));
+      if (this.currentScene === requestedScene) {
+        // Already on this scene; back and forward still move through the history
+        if (historyIndex !== undefined) {
+          this.recordNavigation(requestedScene, params, action, historyIndex);
+        }
+        return;
+      }
+
+      const target = await this.guardSwitch(ticket, requestedScene, params, action, scene => {
+        if (this.coveredScenes.includes(scene)) {
+          throw new Error(`Scene "${scene.name}" is already on the stack`);
         }
       });
+      if (target.scene === this.currentScene) return;
 
-      // Start exiting current scene
-      if (this.currentScene) {
-        this.currentScene.setState('exiting');
-        this.currentScene.onExit();
+      const newScene = target.scene;
+      const enterParams = target.params;
+      // A redirected back or forward lands on a new entry rather than the one it aimed at
+      const navigation = target.redirected && action !== 'replace' ? 'push' : action;
+      const navigationIndex = target.redirected ? undefined : historyIndex;
+      this.emitBeforeSwitch(newScene, ticket);
+
+      const previousScene = this.currentScene;
+      const priorPreviousScene = this.previousScene;
+      try {
+        await this.preloadScene(newScene, ticket);
+        this.throwIfCancelled(ticket);
+        this.previousScene = previousScene;
+
+        if (this.options.enableTransitions && (this.currentScene || switchOptions)) {
+          await this.transitionToScene(newScene, enterParams, transitionOptions, ticket);
+        } else {
+          await this.directSwitchToScene(newScene, enterParams);
+          this.throwIfCancelled(ticket);
+        }
+      } catch (error) {
+        if (error instanceof SceneError) {
+          this.previousScene = priorPreviousScene;
+          await this.recoverFromSwitchError(error, previousScene, [newScene, this.currentScene]);
+        }
+        throw error;
+      }
+      this.recordNavigation(newScene, enterParams, navigation, navigationIndex);
+    }, policy);
+  }
+
+  /**
+   * Runs canExit, the middleware and canEnter for a switch, following redirects.
+   * Nothing happens to the scenes until every guard has allowed the switch.
+   * @param validate - Throws if a scene cannot be switched to, checked before its guards run.
+   * @returns The scene and params to enter, and whether a guard redirected there.
+   *   The scene is the current one if a redirect pointed back at it.
+   * @throws SceneSwitchDeniedError if a guard denies the switch.
+   */
+  private async guardSwitch(
+    ticket: SwitchTicket,
+    scene: KolownScene,
+    params: unknown,
+    action: SceneGuardContext['action'],
+    validate: (scene: KolownScene) => void
+  ): Promise<{ scene: KolownScene; params: unknown; redirected: boolean }> {
+    for (let redirects = 0; redirects <= MAX_GUARD_REDIRECTS; redirects++) {
+      validate(scene);
+      if (scene === this.currentScene) {
+        return { scene, params, redirected: redirects > 0 };
       }
+      this.assertNotInLayer(scene);
+      this.assertNotInBackground(scene);
 
-      // Start entering new scene
-      newScene.setState('entering');
-      newScene.onEnter();
+      const context: SceneGuardContext = { from: this.currentScene, to: scene, params, action };
+      const redirect = await this.whileCancelable(ticket, this.runGuards(context));
+      if (!redirect) {
+        return { scene, params, redirected: redirects > 0 };
+      }
 
-      this.currentScene = newScene;
-      this.activeTransition.start();
-    });
+      this.assertSceneExists(redirect.redirect);
+      scene = await this.whileCancelable(ticket, this.resolveScene(redirect.redirect));
+      params = redirect.params;
+    }
+    throw new Error(`Too many guard redirects while switching to scene "${ticket.sceneName}"`);
   }
 
-  private async directSwitchToScene(newScene: KolownScene): Promise<void> {
-    // Exit current scene
-    if (this.currentScene) {
-      this.currentScene.setState('exiting');
-      await this.currentScene.onExit();
-      this.currentScene.setState('inactive');
+  /**
+   * Asks the scene being left, each middleware in the order it was added, then the
+   * scene being entered. The first guard to deny or redirect decides.
+   */
+  private async runGuards(context: SceneGuardContext): Promise<SceneRedirect | null> {
+    const { from, to } = context;
+    const guards: Array<[string, SceneMiddleware]> = [];
+    if (from && context.action !== 'stack') {
+      guards.push([`canExit of "${from.name}"`, guardContext => from.canExit(guardContext)]);
     }
+    this.middleware.forEach(middleware => guards.push(['middleware', middleware]));
+    guards.push([`canEnter of "${to.name}"`, guardContext => to.canEnter(guardContext)]);
 
-    // Enter new scene
-    this.currentScene = newScene;
-    newScene.setState('entering');
-    await newScene.onEnter();
-    newScene.setState('active');
+    for (const [guard, check] of guards) {
+      const result = await check(context);
+      if (result === false) {
+        throw new SceneSwitchDeniedError(to.name, guard);
+      }
+      if (result !== true) {
+        return result;
+      }
+    }
+    return null;
   }
 
   /**
-   * Pauses the current scene.
-   * Sets the current scene's state to 'paused' and calls its onPause lifecycle method.
+   * Updates the navigation history after a switch and emits navigated.
+   * A push drops any entries ahead of the current one, and the oldest entries
+   * are dropped beyond maxHistory.
    */
-  public pauseCurrentScene(): void {
-    if (this.currentScene && this.currentScene.isActive()) {
-      this.currentScene.setState('paused');
-      this.currentScene.onPause();
+  private recordNavigation(scene: KolownScene, params: unknown, action: NavigationAction, historyIndex?: number): void {
+    const entry = { sceneName: scene.name, params };
+
+    if (historyIndex !== undefined) {
+      this.historyIndex = historyIndex;
+    } else if (action === 'replace' && this.historyIndex >= 0) {
+      this.navigationHistory[this.historyIndex] = entry;
+    } else {
+      this.navigationHistory = [...this.navigationHistory.slice(0, this.historyIndex + 1), entry];
+      const overflow = this.navigationHistory.length - Math.max(this.options.maxHistory ?? 50, 1);
+      if (overflow > 0) {
+        this.navigationHistory.splice(0, overflow);
+      }
+      this.historyIndex = this.navigationHistory.length - 1;
     }
+
+    this.events.emit('navigated', { scene, params, action });
   }
 
   /**
-   * Resumes the current scene.
-   * Sets the current scene's state to 'active' and calls its onResume lifecycle method.
+   * Replaces the scene on top of the stack with the specified scene.
+   * Covered scenes are left untouched.
+   * @param sceneName - The name of the scene to switch to.
+   * @param args - The params passed to the scene's onEnter, followed by optional switch options.
+   * @throws Error if the specified scene is not found.
    */
-  public resumeCurrentScene(): void {
-    if (this.currentScene && this.currentScene.isPaused()) {
-      this.currentScene.setState('active');
-      this.currentScene.onResume();
-    }
+  public async replaceScene<K extends SceneName<TScenes>>(
+    sceneName: K,
+    ...args: SceneSwitchArgs<TScenes[K]>
+  ): Promise<void> {
+    await this.switchTo(sceneName, ...args);
   }
 
   /**
-   * Updates the current scene and active transition.
-   * @param deltaTime - Optional time delta for the update.
+   * Pushes a scene on top of the stack.
+   * The covered scene is paused and stays on the stack until the pushed scene is popped.
+   * The middleware and the pushed scene's canEnter run first; the covered scene's canExit does not.
+   * @param sceneName - The name of the scene to push.
+   * @param args - The params passed to the scene's onEnter (required when the scene map says so).
+   * @throws Error if the specified scene is not found or is already on the stack.
+   * @throws SceneSwitchDeniedError if a middleware or canEnter denies the push.
    */
-  public update(deltaTime?: number): void {
-    const now = Date.now();
-    const dt = deltaTime ?? (now - this.lastUpdateTime);
-    this.lastUpdateTime = now;
+  public async pushScene<K extends SceneName<TScenes>>(
+    sceneName: K,
+    ...args: SceneParamsArgs<TScenes[K]>
+  ): Promise<void> {
+    const [params] = args;
+    this.assertNotDestroyed();
+    this.assertSceneExists(sceneName);
 
-    // Update active transition
-    if (this.activeTransition) {
-      const progress = this.activeTransition.update();
-      
-      if (progress >= 1 && this.currentScene) {
-        this.currentScene.setState('active');
-        if (this.previousScene) {
-          this.previousScene.setState('inactive');
+    await this.runSwitch(sceneName, async ticket => {
+      const requestedScene = await this.whileCancelable(ticket, this.resolveScene(sceneName));
+      const target = await this.guardSwitch(ticket, requestedScene, params, 'stack', scene => {
+        if (scene === this.currentScene || this.coveredScenes.includes(scene)) {
+          throw new Error(`Scene "${scene.name}" is already on the stack`);
+        }
+      });
+
+      const newScene = target.scene;
+      this.emitBeforeSwitch(newScene, ticket);
+
+      const coveredScene = this.currentScene;
+      const coveredSceneWasActive = coveredScene?.isActive() ?? false;
+      const priorPreviousScene = this.previousScene;
+      try {
+        await this.whileCancelable(ticket, this.runHook(newScene, 'preload', () => newScene.load()));
+
+        if (coveredScene) {
+          this.coveredScenes.push(coveredScene);
+          this.pauseScene(coveredScene);
+        }
+
+        this.previousScene = coveredScene;
+        this.currentScene = newScene;
+        this.setSceneState(newScene, 'entering');
+        await this.runHook(newScene, 'onEnter', () => this.enterScene(newScene, target.params));
+        this.setSceneState(newScene, 'active');
+      } catch (error) {
+        if (error instanceof SceneError) {
+          // Take the failed scene off the stack and uncover the scene below it again
+          this.reportError(error, false);
+          await this.rollbackSwitch(null, [newScene]);
+          this.currentScene = coveredScene;
+          this.previousScene = priorPreviousScene;
+          if (coveredScene && this.coveredScenes[this.coveredScenes.length - 1] === coveredScene) {
+            this.coveredScenes.pop();
+            if (coveredSceneWasActive) {
+              try {
+                this.resumeScene(coveredScene);
+              } catch (resumeError) {
+                this.reportError(resumeError, true);
+              }
+            }
+          }
+        }
+        throw error;
+      }
+      this.throwIfCancelled(ticket);
+    });
+  }
+
+  /**
+   * Pops the scene on top of the stack and resumes the scene below it.
+   * @param result - Optional value handed to the revealed scene's onResume,
+   *   e.g. the item picked in an inventory scene.
+   * @throws Error if there is no covered scene to return to.
+   */
+  public async popScene(result?: unknown): Promise<void> {
+    const revealedSceneName = this.coveredScenes[this.coveredScenes.length - 1]?.name ?? '';
+
+    await this.runSwitch(revealedSceneName, async ticket => {
+      const poppedScene = this.currentScene;
+      const revealedScene = this.coveredScenes[this.coveredScenes.length - 1];
+      if (!poppedScene || !revealedScene) {
+        throw new Error('Cannot pop the last scene on the stack');
+      }
+
+      this.emitBeforeSwitch(revealedScene, ticket);
+
+      let exitError: unknown = null;
+      this.setSceneState(poppedScene, 'exiting');
+      try {
+        await this.runHook(poppedScene, 'onExit', () => poppedScene.onExit());
+      } catch (error) {
+        // Keep the scene on top; the pop only goes ahead if it cannot be entered again
+        this.reportError(error, false);
+        if (await this.rollbackSwitch(poppedScene, [])) {
+          throw error;
         }
+        exitError = error;
+      }
+      this.setSceneState(poppedScene, 'inactive');
+
+      this.coveredScenes.pop();
+      this.previousScene = poppedScene;
+      this.currentScene = revealedScene;
+      try {
+        this.resumeScene(revealedScene, result);
+      } catch (resumeError) {
+        // The pop is done either way; the revealed scene stays active
+        this.reportError(resumeError, false);
+        exitError = exitError ?? resumeError;
+      }
+      if (exitError) {
+        throw exitError;
+      }
+      this.throwIfCancelled(ticket);
+    });
+  }
+
+  /**
+   * Checks if a switch, push or pop is running or queued.
+   * @returns True if the scene stack is changing, false otherwise.
+   */
+  public isSwitching(): boolean {
+    return this.switchTickets.length > 0;
+  }
+
+  /**
+   * Serializes every change to the scene stack. Each call waits for the ones
+   * before it, and the policy decides what happens when the stack is busy:
+   * 'queue' waits its turn, 'cancel' cancels everything running or queued,
+   * and 'reject' fails straight away.
+   */
+  private async runSwitch(
+    sceneName: string,
+    operation: (ticket: SwitchTicket) => Promise<void>,
+    policy: SwitchPolicy = this.options.switchPolicy ?? 'queue'
+  ): Promise<void> {
+    this.assertNotDestroyed();
+    if (this.switchTickets.length > 0) {
+      if (policy === 'reject') {
+        throw new SceneSwitchRejectedError(sceneName, this.switchTickets[0].sceneName);
+      }
+      if (policy === 'cancel') {
+        this.switchTickets.forEach(pending => pending.cancel());
       }
     }
 
-    // Update current scene
-    if (this.currentScene && this.currentScene.isActive()) {
-      this.currentScene.onUpdate(dt);
+    const ticket = this.createSwitchTicket(sceneName);
+    this.switchTickets.push(ticket);
+
+    const run = this.switchQueue.then(() => {
+      this.throwIfCancelled(ticket);
+      return operation(ticket);
+    });
+    this.switchQueue = run.catch(() => undefined);
+
+    try {
+      await run;
+    } finally {
+      this.switchTickets = this.switchTickets.filter(pending => pending !== ticket);
+      this.disposeIdleScenes();
     }
   }
 
+  private createSwitchTicket(sceneName: string): SwitchTicket {
+    let rejectCancellation: (error: SceneSwitchCancelledError) => void = () => undefined;
+    const cancellation = new Promise<never>((_resolve, reject) => {
+      rejectCancellation = reject;
+    });
+    // Only observed while a phase is cancelable; never surface it as unhandled
+    cancellation.catch(() => undefined);
+
+    const ticket: SwitchTicket = {
+      sceneName,
+      cancelled: false,
+      cancellation,
+      cancel: () => {
+        if (ticket.cancelled) return;
+        ticket.cancelled = true;
+        rejectCancellation(new SceneSwitchCancelledError(sceneName));
+      }
+    };
+    return ticket;
+  }
+
   /**
-   * Starts the update loop for the SceneManager.
-   * Continuously updates the current scene and active transition.
+   * Waits for a phase that can be abandoned without touching scene state,
+   * such as a preload. The work itself keeps running in the background.
    */
-  private startUpdateLoop(): void {
-    if (this.isUpdating) return;
-    
-    this.isUpdating = true;
-    this.lastUpdateTime = Date.now();
+  private whileCancelable<T>(ticket: SwitchTicket, promise: Promise<T>): Promise<T> {
+    return Promise.race([promise, ticket.cancellation]);
+  }
 
-    const updateFrame = () => {
-      if (!this.isUpdating) return;
-      
-      this.update();
-      requestAnimationFrame(updateFrame);
-    };
+  private throwIfCancelled(ticket: SwitchTicket): void {
+    if (ticket.cancelled) {
+      throw new SceneSwitchCancelledError(ticket.sceneName);
+    }
+  }
 
-    requestAnimationFrame(updateFrame);
+  private assertSceneExists(sceneName: string): void {
+    if (!this.scenes.has(sceneName) && !this.registry.hasFactory(sceneName)) {
+      throw new Error(`Scene "${sceneName}" not found`);
+    }
   }
 
   /**
-   * Stops the update loop for the SceneManager.
+   * Gets a scene instance, building it with its registered factory on first use.
+   * Concurrent callers share one pending build.
    */
-  public stopUpdateLoop(): void {
-    this.isUpdating = false;
+  private async resolveScene(sceneName: string): Promise<KolownScene> {
+    const existing = this.scenes.get(sceneName);
+    if (existing) return existing;
+
+    this.assertSceneExists(sceneName);
+
+    let pending = this.pendingScenes.get(sceneName);
+    if (!pending) {
+      pending = this.registry.createFromFactory(sceneName)
+        .then(scene => {
+          this.addScene(scene);
+          this.lazySceneUsage.set(scene, this.scheduler.now());
+          return scene;
+        })
+        .finally(() => this.pendingScenes.delete(sceneName));
+      this.pendingScenes.set(sceneName, pending);
+    }
+    return pending;
+  }
+
+  private async transitionToScene(
+    newScene: KolownScene, 
+    params: unknown,
+    transitionOptions: SceneTransitionOptions,
+    ticket: SwitchTicket
+  ): Promise<void> {
+    const options = {
+      duration: this.options.defaultTransitionDuration,
+      ...transitionOptions
+    };
+
+    const outgoingScene = this.currentScene;
+
+    // Run both lifecycle hooks to completion before any frame of the transition is shown,
+    // even if one of them fails, so neither scene is rolled back mid-hook
+    if (outgoingScene) {
+      this.setSceneState(outgoingScene, 'exiting');
+    }
+    this.setSceneState(newScene, 'entering');
+    const failures: unknown[] = [];
+    await Promise.all([
+      outgoingScene ? this.runHook(outgoingScene, 'onExit', () => outgoingScene.onExit()) : undefined,
+      this.runHook(newScene, 'onEnter', () => this.enterScene(newScene, params))
+    ].map(hook => Promise.resolve(hook).catch(error => {
+      failures.push(error);
+    })));
+    if (failures.length > 0) {
+      throw failures[0];
+    }
+
+    if (ticket.cancelled) {
+      // Skip the visual transition, but leave both scenes settled
+      if (outgoingScene) {
+        this.setSceneState(outgoingScene, 'inactive');
+      }
+      this.setSceneState(newScene, 'active');
+      this.currentScene = newScene;
+      throw new SceneSwitchCancelledError(ticket.sceneName);
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const transition = new SceneTransition({
+        ...options,
+        onComplete: () => {
+          if (transition.isReversed() && !ticket.cancelled) {
+            this.revertTransition(outgoingScene, newScene).then(
+              () => reject(new SceneSwitchCancelledError(ticket.sceneName)),
+              reject
+            );
+            return;
+          }
+
+          // Settle both scenes before anyone awaiting the switch resumes
+          if (outgoingScene) {
+            this.setSceneState(outgoingScene, 'inactive');
+          }
+          this.setSceneState(newScene, 'active');
+          this.outgoingScene = null;
+          this.activeTransition = null;
+          this.emitTransitionEnd({
+            from: outgoingScene,
+            to: newScene,
+            cancelled: ticket.cancelled,
+            reversed: false
+          });
+
+          if (ticket.cancelled) {
+            reject(new SceneSwitchCancelledError(ticket.sceneName));
+            return;
+          }
+          try {
+            options.onComplete?.();
+          } catch (error) {
+            // The switch has happened; a failing callback must not leave it pending
+            this.reportError(new SceneError(newScene.name, 'transition', error), true);
+          }
+          resolve();
+        }
+      }, this.scheduler);
+
+      // A cancelled transition jumps to its end state so the next switch starts clean
+      ticket.cancellation.catch(() => {
+        if (transition.isActive()) {
+          transition.complete();
+        }
+      });
+
+      this.activeTransition = transition;
+      this.outgoingScene = outgoingScene;
+      this.currentScene = newScene;
+      transition.start();
+      this.emitTransitionStart({
+        from: outgoingScene,
+        to: newScene,
+        duration: options.duration ?? 1000
+      });
+    });
+  }
+
+  private emitTransitionStart(event: TransitionStartEvent): void {
+    this.profiler?.transitionStarted(event);
+    this.events.emit('transitionStart', event);
+  }
+
+  private emitTransitionEnd(event: TransitionEndEvent): void {
+    this.events.emit('transitionEnd', event);
+    const timing = this.profiler?.transitionEnded(event);
+    if (timing) {
+      this.events.emit('transitionProfiled', timing);
+    }
   }
 
   /**
-   * Gets the names of all scenes managed by the SceneManager.
-   * @returns An array of scene names.
+   * Undoes a transition that was reversed back to its start: the incoming scene
+   * exits again and the outgoing scene enters again with its original params.
    */
-  public getScenes(): string[] {
-    return Array.from(this.scenes.keys());
+  private async revertTransition(outgoingScene: KolownScene | null, newScene: KolownScene): Promise<void> {
+    this.outgoingScene = null;
+    this.activeTransition = null;
+    this.currentScene = outgoingScene;
+    this.previousScene = newScene;
+
+    this.setSceneState(newScene, 'exiting');
+    if (outgoingScene) {
+      this.setSceneState(outgoingScene, 'entering');
+    }
+    try {
+      await Promise.all([
+        this.runHook(newScene, 'onExit', () => newScene.onExit()),
+        outgoingScene
+          ? this.runHook(outgoingScene, 'onEnter', () => this.enterScene(outgoingScene, this.enterParams.get(outgoingScene)))
+          : undefined
+      ]);
+    } finally {
+      this.setSceneState(newScene, 'inactive');
+      if (outgoingScene) {
+        this.setSceneState(outgoingScene, 'active');
+      }
+      this.emitTransitionEnd({
+        from: outgoingScene,
+        to: newScene,
+        cancelled: false,
+        reversed: true
+      });
+    }
+  }
+
+  /**
+   * Calls a scene's onEnter, remembering the params so the scene can be
+   * entered again when a transition away from it is reversed.
+   */
+  private enterScene(scene: KolownScene, params: unknown): void | Promise<void> {
+    this.enterParams.set(scene, params);
+    return scene.onEnter(params);
+  }
+
+  /**
+   * Loads a scene before it is shown. If a loading scene is configured and the
+   * preload is still running after loadingSceneDelay, the loading scene replaces
+   * the current scene until loading finishes.
+   */
+  private async preloadScene(scene: KolownScene, ticket: SwitchTicket): Promise<void> {
+    if (scene.isLoaded()) return;
+
+    const loadingScene = this.options.loadingScene
+      ? this.scenes.get(this.options.loadingScene)
+      : undefined;
+    if (!loadingScene || loadingScene === scene || loadingScene === this.currentScene) {
+      await this.whileCancelable(ticket, this.runHook(scene, 'preload', () => scene.load()));
+      return;
+    }
+
+    let showingLoadingScene = false;
+    const loading = this.runHook(scene, 'preload', () => scene.load(progress => {
+      if (showingLoadingScene) {
+        loadingScene.onLoadProgress(progress, scene.name);
+      }
+    }));
+
+    let cancelDelay: (() => void) | undefined;
+    const loadedInTime = await this.whileCancelable(ticket, Promise.race([
+      loading.then(() => true),
+      new Promise<boolean>(resolve => {
+        cancelDelay = this.scheduler.setTimeout(() => resolve(false), this.options.loadingSceneDelay ?? 200);
+      })
+    ])).finally(() => cancelDelay?.());
+
+    if (!loadedInTime) {
+      await this.whileCancelable(ticket, this.runHook(loadingScene, 'preload', () => loadingScene.load()));
+      await this.directSwitchToScene(loadingScene);
+      this.throwIfCancelled(ticket);
+      showingLoadingScene = true;
+      loadingScene.onLoadProgress(scene.loadProgress, scene.name);
+    }
+
+    await this.whileCancelable(ticket, loading);
+  }
+
+  private async directSwitchToScene(newScene: KolownScene, params?: unknown): Promise<void> {
+    // Exit current scene
+    const outgoingScene = this.currentScene;
+    if (outgoingScene) {
+      this.setSceneState(outgoingScene, 'exiting');
+      await this.runHook(outgoingScene, 'onExit', () => outgoingScene.onExit());
+      this.setSceneState(outgoingScene, 'inactive');
+    }
+
+    // Enter new scene
+    this.currentScene = newScene;
+    this.setSceneState(newScene, 'entering');
+    await this.runHook(newScene, 'onEnter', () => this.enterScene(newScene, params));
+    this.setSceneState(newScene, 'active');
+  }
+
+  /**
+   * Runs a lifecycle hook, wrapping anything it throws or rejects with in a SceneError.
+   */
+  private async runHook(scene: KolownScene, phase: SceneErrorPhase, hook: () => void | Promise<void>): Promise<void> {
+    const profiler = this.profiler;
+    const startTime = profiler ? profiler.now() : 0;
+    try {
+      await hook();
+    } catch (error) {
+      throw error instanceof SceneError ? error : new SceneError(scene.name, phase, error);
+    } finally {
+      profiler?.recordHook(scene.name, phase, startTime);
+    }
+  }
+
+  /**
+   * Runs a synchronous hook such as onPause, wrapping a failure in a SceneError.
+   */
+  private runSyncHook(scene: KolownScene, phase: SceneErrorPhase, hook: () => void): void {
+    const profiler = this.profiler;
+    const startTime = profiler ? profiler.now() : 0;
+    try {
+      hook();
+    } catch (error) {
+      throw error instanceof SceneError ? error : new SceneError(scene.name, phase, error);
+    } finally {
+      profiler?.recordHook(scene.name, phase, startTime);
+    }
+  }
+
+  /**
+   * Runs a hook called every frame. A failure is reported rather than thrown, so one
+   * broken scene cannot stop the update loop.
+   */
+  private runFrameHook(scene: KolownScene, phase: SceneErrorPhase, hook: () => void): void {
+    const profiler = this.profiler;
+    const startTime = profiler ? profiler.now() : 0;
+    try {
+      hook();
+    } catch (error) {
+      this.handleFrameError(new SceneError(scene.name, phase, error));
+    } finally {
+      profiler?.recordHook(scene.name, phase, startTime);
+    }
+  }
+
+  /**
+   * Reports an error from a frame hook and switches to the errorScene, if one is
+   * configured. Further errors are only reported until that switch settles.
+   */
+  private handleFrameError(error: SceneError): void {
+    this.reportError(error, true);
+
+    const errorSceneName = this.options.errorScene;
+    if (!errorSceneName || this.recoveringFromError) return;
+    if (errorSceneName === error.sceneName || errorSceneName === this.currentScene?.name) return;
+
+    this.recoveringFromError = true;
+    this.untyped().switchTo(errorSceneName, { error })
+      .catch(switchError => {
+        // Lifecycle errors were already reported by the switch itself
+        if (!(switchError instanceof SceneError)) {
+          this.reportError(switchError, true);
+        }
+      })
+      .finally(() => {
+        this.recoveringFromError = false;
+      });
+  }
+
+  /**
+   * Hands an error to the onError option. Without one, errors that have no caller
+   * to reject, such as those from frame hooks, are logged instead.
+   */
+  private reportError(error: unknown, uncaught: boolean): void {
+    if (this.options.onError && error instanceof SceneError) {
+      this.options.onError(error);
+    } else if (uncaught) {
+      console.error('Unhandled scene error:', error);
+    }
+  }
+
+  /**
+   * Reports a lifecycle error that failed a switch and rolls the stack back to the
+   * scene the switch was leaving. If there is no such scene, or it cannot be entered
+   * again, the errorScene is shown instead when one is configured.
+   */
+  private async recoverFromSwitchError(
+    error: SceneError,
+    restoreScene: KolownScene | null,
+    failedScenes: Array<KolownScene | null>
+  ): Promise<void> {
+    this.reportError(error, false);
+    this.currentScene = restoreScene;
+    if (restoreScene && await this.rollbackSwitch(restoreScene, failedScenes)) return;
+
+    await this.rollbackSwitch(null, failedScenes);
+    this.currentScene = null;
+    await this.showErrorScene(error);
+  }
+
+  /**
+   * Puts scenes back the way they were before a failed switch: scenes the switch
+   * started entering exit again, and the scene it was leaving enters again with its
+   * original params. Failures on the way are reported, not thrown.
+   * @returns False if the scene being restored could not be entered again.
+   */
+  private async rollbackSwitch(
+    restoreScene: KolownScene | null,
+    failedScenes: Array<KolownScene | null>
+  ): Promise<boolean> {
+    this.activeTransition = null;
+    this.outgoingScene = null;
+
+    for (const scene of failedScenes) {
+      if (!scene || scene === restoreScene || scene.state === 'inactive') continue;
+
+      this.setSceneState(scene, 'exiting');
+      try {
+        await this.runHook(scene, 'onExit', () => scene.onExit());
+      } catch (exitError) {
+        this.reportError(exitError, true);
+      } finally {
+        this.setSceneState(scene, 'inactive');
+      }
+    }
+
+    if (!restoreScene || (restoreScene.state !== 'exiting' && restoreScene.state !== 'inactive')) {
+      return true;
+    }
+
+    this.setSceneState(restoreScene, 'entering');
+    try {
+      await this.runHook(restoreScene, 'onEnter', () => this.enterScene(restoreScene, this.enterParams.get(restoreScene)));
+      this.setSceneState(restoreScene, 'active');
+      return true;
+    } catch (enterError) {
+      this.reportError(enterError, true);
+      this.setSceneState(restoreScene, 'exiting');
+      this.setSceneState(restoreScene, 'inactive');
+      return false;
+    }
+  }
+
+  /**
+   * Shows the errorScene on an empty stack after a switch could not be rolled back.
+   * Does nothing without one, or if the errorScene itself is the scene that failed.
+   */
+  private async showErrorScene(error: SceneError): Promise<void> {
+    const errorSceneName = this.options.errorScene;
+    if (!errorSceneName || errorSceneName === error.sceneName) return;
+
+    let errorScene: KolownScene | null = null;
+    try {
+      errorScene = await this.resolveScene(errorSceneName);
+      const scene = errorScene;
+      await this.runHook(scene, 'preload', () => scene.load());
+      await this.directSwitchToScene(scene, { error });
+    } catch (fallbackError) {
+      this.reportError(fallbackError, true);
+      await this.rollbackSwitch(null, [errorScene]);
+      this.currentScene = null;
+    }
+  }
+
+  /**
+   * Emits beforeSwitch and aborts the switch if a listener cancels it.
+   */
+  private emitBeforeSwitch(newScene: KolownScene, ticket: SwitchTicket): void {
+    let cancelled = false;
+    const event: BeforeSwitchEvent = {
+      from: this.currentScene,
+      to: newScene,
+      get cancelled() {
+        return cancelled;
+      },
+      cancel: () => {
+        cancelled = true;
+      }
+    };
+
+    this.events.emit('beforeSwitch', event);
+    if (cancelled) {
+      throw new SceneSwitchCancelledError(ticket.sceneName);
+    }
+  }
+
+  /**
+   * Changes a scene's state and notifies stateChanged listeners.
+   * Every state change made by the manager goes through here. A scene that
+   * finishes exiting has its tracked resources released.
+   */
+  private setSceneState(scene: KolownScene, state: SceneState): void {
+    const previousState = scene.state;
+    if (previousState === state) return;
+
+    scene.setState(state);
+    // onExit has run, so whatever the scene set up while it was shown can go
+    if (previousState === 'exiting') {
+      scene.resources.dispose();
+      if (scene.dataPolicy === 'reset') {
+        scene.resetData();
+      }
+    }
+    if (state === 'inactive' && scene === this.focusedScene) {
+      this.focusedScene = null;
+    }
+    if (this.lazySceneUsage.has(scene)) {
+      this.lazySceneUsage.set(scene, this.scheduler.now());
+    }
+    this.events.emit('stateChanged', { scene, previousState, state });
+  }
+
+  /**
+   * Pauses an active scene. The scene is paused even if its onPause fails.
+   * @throws SceneError if onPause throws.
+   */
+  private pauseScene(scene: KolownScene): void {
+    if (!scene.isActive()) return;
+
+    this.setSceneState(scene, 'paused');
+    try {
+      this.runSyncHook(scene, 'onPause', () => scene.onPause());
+    } finally {
+      this.events.emit('paused', { scene, previousState: 'active', state: 'paused' });
+    }
+  }
+
+  /**
+   * Resumes a paused scene. The scene is active again even if its onResume fails.
+   * @throws SceneError if onResume throws.
+   */
+  private resumeScene(scene: KolownScene, result?: unknown): void {
+    if (!scene.isPaused()) return;
+
+    this.setSceneState(scene, 'active');
+    try {
+      this.runSyncHook(scene, 'onResume', () => scene.onResume(result));
+    } finally {
+      this.events.emit('resumed', { scene, previousState: 'paused', state: 'active' });
+    }
+  }
+
+  /**
+   * Pauses or resumes a scene on the caller's behalf, reporting a failing hook
+   * to onError before it is thrown. The caller's choice outlasts an auto-pause,
+   * so autoResume leaves the scene as it is.
+   */
+  private toggleScene(scene: KolownScene, pause: boolean): void {
+    this.autoPausedScenes.delete(scene);
+    try {
+      if (pause) {
+        this.pauseScene(scene);
+      } else {
+        this.resumeScene(scene);
+      }
+    } catch (error) {
+      this.reportError(error, false);
+      throw error;
+    }
+  }
+
+  /**
+   * Pauses the current scene.
+   * Sets the current scene's state to 'paused' and calls its onPause lifecycle method.
+   * While a transition is running, the transition is paused instead.
+   * @throws SceneError if the scene's onPause throws; the scene is paused anyway.
+   */
+  public pauseCurrentScene(): void {
+    if (this.activeTransition) {
+      this.autoPausedTransition = false;
+      this.activeTransition.pause();
+      return;
+    }
+    if (this.currentScene) {
+      this.toggleScene(this.currentScene, true);
+    }
+  }
+
+  /**
+   * Resumes the current scene.
+   * Sets the current scene's state to 'active' and calls its onResume lifecycle method.
+   * While a transition is running, the transition is resumed instead.
+   * @throws SceneError if the scene's onResume throws; the scene is resumed anyway.
+   */
+  public resumeCurrentScene(): void {
+    if (this.activeTransition) {
+      this.autoPausedTransition = false;
+      this.activeTransition.resume();
+      return;
+    }
+    if (this.currentScene) {
+      this.toggleScene(this.currentScene, false);
+    }
+  }
+
+  /**
+   * Gets the transition that is running on the scene stack, if any.
+   * It can be paused, resumed, reversed or seeked; a transition reversed back
+   * to its start returns to the scene it was leaving.
+   * @returns The running transition, or null.
+   */
+  public getActiveTransition(): SceneTransition | null {
+    return this.activeTransition;
+  }
+
+  /**
+   * Starts a background scene next to the scene stack. It is entered now and then
+   * updated at its tickRate until it is stopped, whichever scene is in the foreground.
+   * While the page is hidden it is updated at its hiddenTickRate instead, or not at all
+   * when that is 0.
+   * @param sceneName - The name of a BackgroundScene.
+   * @param args - The params passed to the scene's onEnter (required when the scene map says so).
+   * @throws Error if the scene is not found, is not a BackgroundScene, or is already shown.
+   * @throws SceneError if its preload or onEnter fails; the scene is not started.
+   */
+  public async startBackgroundScene<K extends SceneName<TScenes>>(
+    sceneName: K,
+    ...args: SceneParamsArgs<TScenes[K]>
+  ): Promise<void> {
+    const [params] = args;
+    this.assertNotDestroyed();
+    const scene = await this.resolveScene(sceneName);
+    if (!(scene instanceof BackgroundScene)) {
+      throw new Error(`Scene "${sceneName}" is not a BackgroundScene`);
+    }
+    if (this.backgroundScenes.includes(scene)) {
+      return; // Already running
+    }
+    if (scene === this.currentScene || this.coveredScenes.includes(scene)) {
+      throw new Error(`Scene "${sceneName}" is already on the stack`);
+    }
+    this.assertNotInLayer(scene);
+
+    try {
+      await this.runHook(scene, 'preload', () => scene.load());
+      this.setSceneState(scene, 'entering');
+      await this.runHook(scene, 'onEnter', () => this.enterScene(scene, params));
+    } catch (error) {
+      this.reportError(error, false);
+      await this.rollbackSwitch(null, [scene]);
+      throw error;
+    }
+    this.setSceneState(scene, 'active');
+
+    this.backgroundScenes.push(scene);
+    this.backgroundTickTimes.set(scene, this.scheduler.now());
+    this.updatePageWatch();
+  }
+
+  /**
+   * Stops a background scene, exiting it and releasing its resources.
+   * @param sceneName - The name of the background scene.
+   * @throws SceneError if its onExit fails; the scene is stopped anyway.
+   */
+  public async stopBackgroundScene(sceneName: string): Promise<void> {
+    const scene = this.backgroundScenes.find(running => running.name === sceneName);
+    if (!scene) return;
+
+    this.backgroundScenes = this.backgroundScenes.filter(running => running !== scene);
+    this.updatePageWatch();
+
+    this.setSceneState(scene, 'exiting');
+    try {
+      await this.runHook(scene, 'onExit', () => scene.onExit());
+    } catch (error) {
+      this.reportError(error, false);
+      throw error;
+    } finally {
+      this.setSceneState(scene, 'inactive');
+    }
+  }
+
+  /**
+   * Gets the background scenes that are running, in the order they were started.
+   * @returns The names of the running background scenes.
+   */
+  public getBackgroundScenes(): string[] {
+    return this.backgroundScenes.map(scene => scene.name);
+  }
+
+  /**
+   * Gets the typed message channel of a background scene, whether or not it is running.
+   * @typeParam TScene - The background scene's class, which types the commands and events.
+   * @param sceneName - The name of the background scene.
+   * @returns The scene's channel.
+   * @throws Error if the scene is not found or is not a BackgroundScene.
+   */
+  public getChannel<TScene extends BackgroundScene<any, any> = BackgroundScene>(sceneName: string): TScene['channel'] {
+    const scene = this.scenes.get(sceneName);
+    if (!scene) {
+      throw new Error(`Scene "${sceneName}" not found`);
+    }
+    if (!(scene instanceof BackgroundScene)) {
+      throw new Error(`Scene "${sceneName}" is not a BackgroundScene`);
+    }
+    return scene.channel;
+  }
+
+  /**
+   * Adds a named layer that can hold one active scene alongside the scene stack.
+   * Layers are updated in ascending zIndex order; the main layer sits at zIndex 0.
+   * @param layerName - The unique name of the layer.
+   * @param zIndex - The layer's position in the update and draw order.
+   * @throws Error if a layer with the same name already exists.
+   */
+  public addLayer(layerName: string, zIndex: number): void {
+    if (this.layers.some(layer => layer.name === layerName)) {
+      throw new Error(`Layer "${layerName}" already exists`);
+    }
+
+    this.layers.push({ name: layerName, zIndex, scene: null });
+    // Array.prototype.sort is stable, so equal zIndex layers keep insertion order
+    this.layers.sort((a, b) => a.zIndex - b.zIndex);
+  }
+
+  /**
+   * Removes a layer, exiting the scene it holds.
+   * @param layerName - The name of the layer to remove.
+   * @throws Error if the layer is not found or is the main layer.
+   */
+  public async removeLayer(layerName: string): Promise<void> {
+    const layer = this.getLayerSlot(layerName);
+    await this.clearLayer(layerName);
+    this.layers = this.layers.filter(other => other !== layer);
+  }
+
+  /**
+   * Switches the scene held by a layer. The main layer's scene stack is not affected.
+   * @param layerName - The name of the layer.
+   * @param sceneName - The name of the scene to show in the layer.
+   * @param args - The params passed to the scene's onEnter (required when the scene map says so).
+   * @throws Error if the layer or scene is not found, or the scene is already in use.
+   */
+  public async switchLayerTo<K extends SceneName<TScenes>>(
+    layerName: string,
+    sceneName: K,
+    ...args: SceneParamsArgs<TScenes[K]>
+  ): Promise<void> {
+    const [params] = args;
+    const layer = this.getLayerSlot(layerName);
+    const newScene = await this.resolveScene(sceneName);
+
+    if (layer.scene === newScene) {
+      return; // Already on this scene
+    }
+
+    if (newScene === this.currentScene || this.coveredScenes.includes(newScene)) {
+      throw new Error(`Scene "${sceneName}" is already on the stack`);
+    }
+    this.assertNotInLayer(newScene);
+    this.assertNotInBackground(newScene);
+    try {
+      await this.runHook(newScene, 'preload', () => newScene.load());
+    } catch (error) {
+      this.reportError(error, false);
+      throw error;
+    }
+
+    const previousLayerScene = layer.scene;
+    await this.clearLayer(layerName);
+
+    layer.scene = newScene;
+    this.setSceneState(newScene, 'entering');
+    try {
+      await this.runHook(newScene, 'onEnter', () => this.enterScene(newScene, params));
+    } catch (error) {
+      // Put the layer's previous scene back, or leave the layer empty if that fails too
+      this.reportError(error, false);
+      const restored = await this.rollbackSwitch(previousLayerScene, [newScene]);
+      layer.scene = restored ? previousLayerScene : null;
+      throw error;
+    }
+    this.setSceneState(newScene, 'active');
+  }
+
+  /**
+   * Exits the scene held by a layer and leaves the layer empty.
+   * @param layerName - The name of the layer.
+   * @throws Error if the layer is not found or is the main layer.
+   */
+  public async clearLayer(layerName: string): Promise<void> {
+    const layer = this.getLayerSlot(layerName);
+    const scene = layer.scene;
+    if (!scene) return;
+
+    layer.scene = null;
+    this.setSceneState(scene, 'exiting');
+    try {
+      await this.runHook(scene, 'onExit', () => scene.onExit());
+    } catch (error) {
+      this.reportError(error, false);
+      throw error;
+    } finally {
+      this.setSceneState(scene, 'inactive');
+    }
+  }
+
+  /**
+   * Pauses the scene held by a layer.
+   * @param layerName - The name of the layer.
+   * @throws SceneError if the scene's onPause throws; the scene is paused anyway.
+   */
+  public pauseLayer(layerName: string): void {
+    const scene = this.getLayerSlot(layerName).scene;
+    if (scene) {
+      this.toggleScene(scene, true);
+    }
+  }
+
+  /**
+   * Resumes the scene held by a layer.
+   * @param layerName - The name of the layer.
+   * @throws SceneError if the scene's onResume throws; the scene is resumed anyway.
+   */
+  public resumeLayer(layerName: string): void {
+    const scene = this.getLayerSlot(layerName).scene;
+    if (scene) {
+      this.toggleScene(scene, false);
+    }
+  }
+
+  /**
+   * Gets the scene held by a layer.
+   * @param layerName - The name of the layer.
+   * @returns The layer's scene (the current scene for the main layer), or null if empty.
+   */
+  public getLayerScene(layerName: string): KolownScene | null {
+    if (layerName === SceneManager.MAIN_LAYER) {
+      return this.currentScene;
+    }
+    return this.getLayerSlot(layerName).scene;
+  }
+
+  /**
+   * Gets all layers in update order, back to front.
+   * Renderers can draw the returned layers in sequence.
+   * @returns A snapshot of each layer's name, zIndex and scene.
+   */
+  public getLayerOrder(): SceneLayer[] {
+    return this.layers.map(layer => ({
+      name: layer.name,
+      zIndex: layer.zIndex,
+      scene: layer.name === SceneManager.MAIN_LAYER ? this.currentScene : layer.scene
+    }));
+  }
+
+  private getLayerSlot(layerName: string): LayerSlot {
+    if (layerName === SceneManager.MAIN_LAYER) {
+      throw new Error(`Layer "${layerName}" is managed through the scene stack`);
+    }
+
+    const layer = this.layers.find(other => other.name === layerName);
+    if (!layer) {
+      throw new Error(`Layer "${layerName}" not found`);
+    }
+    return layer;
+  }
+
+  private assertNotInBackground(scene: KolownScene): void {
+    if (this.backgroundScenes.some(running => running === scene)) {
+      throw new Error(`Scene "${scene.name}" is running in the background`);
+    }
+  }
+
+  private assertNotInLayer(scene: KolownScene): void {
+    const layer = this.layers.find(other => other.scene === scene);
+    if (layer) {
+      throw new Error(`Scene "${scene.name}" is already shown in layer "${layer.name}"`);
+    }
+  }
+
+  /**
+   * Updates all layers in order, including the current scene and active transition.
+   * With fixedTimestep set, the elapsed time is also split into fixed steps for onFixedUpdate.
+   * Does nothing while the manager is paused.
+   * @param deltaTime - Optional time delta for the update. Without it, the time since the
+   *   last update is used, and the first update has a delta of 0.
+   */
+  public update(deltaTime?: number): void {
+    const now = this.scheduler.now();
+    const dt = deltaTime ?? (this.lastUpdateTime === null ? 0 : now - this.lastUpdateTime);
+    this.lastUpdateTime = now;
+
+    if (this.paused) return;
+
+    this.runFrame(dt);
+  }
+
+  /**
+   * Advances the manager by exactly the given number of frames, even while it is paused.
+   * Transitions move by the frame time too, instead of by the clock.
+   * @param frames - The number of frames to run (default: 1).
+   * @param frameTime - Milliseconds each frame lasts (default: fixedTimestep, or 1000 / 60).
+   */
+  public step(frames = 1, frameTime = this.options.fixedTimestep ?? 1000 / 60): void {
+    for (let i = 0; i < frames; i++) {
+      this.runFrame(frameTime, frameTime);
+    }
+  }
+
+  /**
+   * Pauses the whole manager: update stops ticking scenes and transitions until resume.
+   * Scene states are left alone; use pauseCurrentScene to pause a scene.
+   */
+  public pause(): void {
+    this.paused = true;
+  }
+
+  /**
+   * Resumes a manager paused with pause. Time that passed while paused is skipped.
+   */
+  public resume(): void {
+    if (!this.paused) return;
+
+    this.paused = false;
+    const now = this.scheduler.now();
+    this.lastUpdateTime = now;
+    // Zero-length update so the transition does not count the paused time
+    this.activeTransition?.update(0);
+    this.backgroundScenes.forEach(scene => this.backgroundTickTimes.set(scene, now));
+  }
+
+  /**
+   * Checks if the manager is paused.
+   * @returns True if paused with pause, false otherwise.
+   */
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Checks if autoPause has paused the scenes because the page is hidden or lost focus.
+   * @returns True while auto-paused, false otherwise.
+   */
+  public isAutoPaused(): boolean {
+    return this.autoPaused;
+  }
+
+  /**
+   * Starts timing every frame, scene hook and transition, replacing any running profiler.
+   * Each update then emits frameProfiled, and frameBudgetExceeded when it takes longer
+   * than the frame budget; each transition emits transitionProfiled when it ends.
+   * @param profilerOptions - The frame budget, sample size and clock for the profiler.
+   * @returns The new profiler; read its measurements with getSnapshot.
+   */
+  public enableProfiler(profilerOptions: ProfilerOptions = {}): SceneProfiler {
+    this.profiler = new SceneProfiler(profilerOptions);
+    return this.profiler;
+  }
+
+  /**
+   * Stops profiling. Without a profiler, updates and hooks are not timed at all.
+   */
+  public disableProfiler(): void {
+    this.profiler = null;
+  }
+
+  /**
+   * Gets the running profiler.
+   * @returns The profiler, or null when profiling is off.
+   */
+  public getProfiler(): SceneProfiler | null {
+    return this.profiler;
+  }
+
+  /**
+   * Sets the global time scale, e.g. 0.25 for slow motion or 0 to freeze.
+   * It multiplies every scene's deltaTime and, with scaleTransitions set, transition progress.
+   * @param timeScale - The new time scale.
+   * @throws Error if the time scale is negative or not a number.
+   */
+  public setTimeScale(timeScale: number): void {
+    if (!(timeScale >= 0) || !Number.isFinite(timeScale)) {
+      throw new Error(`Time scale must be a non-negative number, got ${timeScale}`);
+    }
+    this.timeScale = timeScale;
+  }
+
+  /**
+   * Gets the global time scale.
+   * @returns The time scale, 1 by default.
+   */
+  public getTimeScale(): number {
+    return this.timeScale;
+  }
+
+  private runFrame(dt: number, transitionDelta?: number): void {
+    if (this.options.disposePolicy?.keepAlive !== undefined) {
+      this.disposeIdleScenes();
+    }
+
+    this.profiler?.beginFrame();
+    const scaledDt = dt * this.timeScale;
+
+    for (const layer of this.layers) {
+      if (layer.name === SceneManager.MAIN_LAYER) {
+        this.updateSceneStack(scaledDt, transitionDelta);
+      } else if (layer.scene && layer.scene.isActive()) {
+        this.tickScene(layer.scene, scaledDt);
+      }
+    }
+
+    // While the page is hidden, background scenes are ticked by their own timer
+    if (!this.pageHidden) {
+      this.updateBackgroundScenes();
+    }
+
+    if (this.profiler) {
+      const frame = this.profiler.endFrame(dt);
+      this.events.emit('frameProfiled', frame);
+      if (frame.duration > frame.budget) {
+        this.events.emit('frameBudgetExceeded', frame);
+      }
+    }
+  }
+
+  /**
+   * Ticks each background scene whose interval has passed, with the time since its
+   * last tick. Background scenes run on the scheduler's clock, so the time scale,
+   * step and explicit deltaTimes do not affect them.
+   */
+  private updateBackgroundScenes(): void {
+    const now = this.scheduler.now();
+    for (const scene of [...this.backgroundScenes]) {
+      const tickRate = this.pageHidden ? scene.hiddenTickRate : scene.tickRate;
+      if (!scene.isActive() || tickRate <= 0) continue;
+
+      const elapsed = now - (this.backgroundTickTimes.get(scene) ?? now);
+      if (elapsed >= 1000 / tickRate) {
+        this.backgroundTickTimes.set(scene, now);
+        this.tickScene(scene, elapsed);
+      }
+    }
+  }
+
+  /**
+   * Listens to the page environment while something needs it: running
+   * background scenes or autoPause. Stops listening once the manager is destroyed.
+   */
+  private updatePageWatch(): void {
+    const needed = !this.destroyed && (this.backgroundScenes.length > 0 || this.getAutoPauseOptions() !== null);
+    if (needed && !this.removePageListener) {
+      this.removePageListener = this.pageEnvironment.subscribe(() => this.onPageChange());
+    } else if (!needed && this.removePageListener) {
+      this.removePageListener();
+      this.removePageListener = null;
+    }
+    this.onPageChange();
+  }
+
+  private onPageChange(): void {
+    const watching = this.removePageListener !== null;
+    const hidden = watching && this.pageEnvironment.isHidden();
+    if (this.pageHidden && !hidden && this.lastUpdateTime !== null) {
+      // Frames stop while the page is hidden; the next update should not get all of that time
+      this.lastUpdateTime = this.scheduler.now();
+    }
+    this.setPageHidden(hidden);
+
+    const autoPause = this.getAutoPauseOptions();
+    const shouldPause = watching && autoPause !== null && (
+      (autoPause.onHidden !== false && hidden) ||
+      (autoPause.onBlur === true && !this.pageEnvironment.hasFocus())
+    );
+    if (shouldPause && !this.autoPaused) {
+      this.autoPause();
+    } else if (!shouldPause && this.autoPaused) {
+      this.autoResume();
+    }
+  }
+
+  private getAutoPauseOptions(): AutoPauseOptions | null {
+    const autoPause = this.options.autoPause;
+    if (!autoPause) return null;
+    return autoPause === true ? {} : autoPause;
+  }
+
+  /**
+   * Pauses every active shown scene and the running transition, remembering which
+   * ones so autoResume leaves alone anything that was already paused.
+   */
+  private autoPause(): void {
+    this.autoPaused = true;
+    if (this.activeTransition && !this.activeTransition.isPaused()) {
+      this.activeTransition.pause();
+      this.autoPausedTransition = true;
+    }
+    for (const scene of this.getShownScenes()) {
+      if (!scene.isActive()) continue;
+
+      this.autoPausedScenes.add(scene);
+      try {
+        this.pauseScene(scene);
+      } catch (error) {
+        // Called from the page listener, so there is nobody to throw to
+        this.reportError(error, true);
+      }
+    }
+  }
+
+  /**
+   * Resumes what autoPause paused, skipping scenes that have since been covered or
+   * exited, and drops the time the page was away so nothing sees it as one frame.
+   */
+  private autoResume(): void {
+    this.autoPaused = false;
+    if (this.lastUpdateTime !== null) {
+      this.lastUpdateTime = this.scheduler.now();
+    }
+
+    if (this.autoPausedTransition) {
+      this.autoPausedTransition = false;
+      this.activeTransition?.resume();
+    }
+
+    const shownScenes = this.getShownScenes();
+    for (const scene of this.autoPausedScenes) {
+      if (!shownScenes.includes(scene)) continue;
+
+      try {
+        this.resumeScene(scene);
+      } catch (error) {
+        this.reportError(error, true);
+      }
+    }
+    this.autoPausedScenes.clear();
+  }
+
+  /**
+   * The current scene and the scene of every other layer.
+   */
+  private getShownScenes(): KolownScene[] {
+    return this.layers
+      .map(layer => (layer.name === SceneManager.MAIN_LAYER ? this.currentScene : layer.scene))
+      .filter((scene): scene is KolownScene => scene !== null);
+  }
+
+  private setPageHidden(hidden: boolean): void {
+    const wasHidden = this.pageHidden;
+    this.pageHidden = hidden;
+    this.cancelHiddenTick?.();
+    this.cancelHiddenTick = null;
+
+    if (hidden) {
+      this.scheduleHiddenTick();
+    } else if (wasHidden) {
+      // Suspended scenes carry on from now rather than receiving the hidden time at once
+      const now = this.scheduler.now();
+      this.backgroundScenes
+        .filter(scene => scene.hiddenTickRate <= 0)
+        .forEach(scene => this.backgroundTickTimes.set(scene, now));
+    }
+  }
+
+  /**
+   * Without frames (browsers stop requestAnimationFrame in hidden tabs), a timer
+   * runs at the fastest hiddenTickRate and ticks the background scenes.
+   */
+  private scheduleHiddenTick(): void {
+    const tickRates = this.backgroundScenes.map(scene => scene.hiddenTickRate).filter(tickRate => tickRate > 0);
+    if (tickRates.length === 0) return;
+
+    this.cancelHiddenTick = this.scheduler.setTimeout(() => {
+      this.cancelHiddenTick = null;
+      if (!this.paused) {
+        this.updateBackgroundScenes();
+      }
+      this.scheduleHiddenTick();
+    }, 1000 / Math.max(...tickRates));
+  }
+
+  /**
+   * Adds a scene's frame time to its fixed step accumulator and works out how
+   * many steps to run. At most maxFixedSteps run per frame so a long stall
+   * cannot snowball; the time they could not cover is dropped.
+   */
+  private advanceFixedTimestep(scene: KolownScene, dt: number): { steps: number; alpha: number } {
+    const step = this.options.fixedTimestep;
+    if (step === undefined) {
+      return { steps: 0, alpha: 1 };
+    }
+
+    const maxSteps = this.options.maxFixedSteps ?? 5;
+    let accumulator = (this.fixedStepAccumulators.get(scene) ?? 0) + dt;
+    const steps = Math.min(Math.floor(accumulator / step), maxSteps);
+    accumulator -= steps * step;
+    if (accumulator >= step) {
+      accumulator %= step;
+    }
+    this.fixedStepAccumulators.set(scene, accumulator);
+
+    return { steps, alpha: accumulator / step };
+  }
+
+  /**
+   * Runs one frame of a scene at its own time scale: its fixed steps, then onUpdate, then onRender.
+   */
+  private tickScene(scene: KolownScene, dt: number): void {
+    const sceneDt = dt * scene.timeScale;
+    const { steps, alpha } = this.advanceFixedTimestep(scene, sceneDt);
+
+    for (let i = 0; i < steps; i++) {
+      this.runFrameHook(scene, 'onFixedUpdate', () => scene.onFixedUpdate(this.options.fixedTimestep ?? 0));
+    }
+    this.runFrameHook(scene, 'onUpdate', () => scene.onUpdate(sceneDt));
+    this.runFrameHook(scene, 'onRender', () => scene.onRender(alpha));
+  }
+
+  private updateSceneStack(dt: number, transitionDelta?: number): void {
+    // Update covered scenes, bottom of the stack first
+    if (this.options.updateCoveredScenes) {
+      for (const scene of this.coveredScenes) {
+        this.tickScene(scene, dt);
+      }
+    }
+
+    if (this.activeTransition) {
+      this.updateTransition(this.activeTransition, dt, transitionDelta);
+      return;
+    }
+
+    // Update current scene
+    if (this.currentScene && this.currentScene.isActive()) {
+      this.tickScene(this.currentScene, dt);
+    }
+  }
+
+  /**
+   * Advances the active transition and ticks both scenes taking part in it.
+   * The final frame is still delivered after the transition settles, so both
+   * scenes always see progress reach its end value.
+   */
+  private updateTransition(transition: SceneTransition, dt: number, transitionDelta?: number): void {
+    const outgoingScene = this.outgoingScene;
+    const incomingScene = this.currentScene;
+    transition.timeScale = this.options.scaleTransitions ? this.timeScale : 1;
+    let progress: number;
+    try {
+      progress = transition.update(transitionDelta);
+    } catch (error) {
+      // A failing easing function would fail every frame; finish the transition instead
+      this.reportError(new SceneError(incomingScene?.name ?? '', 'transition', error), true);
+      if (transition.isActive()) {
+        transition.complete();
+      }
+      return;
+    }
+    if (incomingScene) {
+      this.events.emit('transitionProgress', { from: outgoingScene, to: incomingScene, progress });
+    }
+
+    // A paused transition still renders, e.g. while seeking, but its scenes do not update
+    const ticking = !transition.isPaused();
+
+    if (outgoingScene) {
+      this.runFrameHook(outgoingScene, 'onTransitionUpdate', () => {
+        outgoingScene.onTransitionUpdate(progress, 'out', transition.renderEffect(progress, 'out'));
+      });
+      if (ticking && outgoingScene.state === 'exiting') {
+        this.tickScene(outgoingScene, dt);
+      }
+    }
+
+    if (incomingScene) {
+      this.runFrameHook(incomingScene, 'onTransitionUpdate', () => {
+        incomingScene.onTransitionUpdate(progress, 'in', transition.renderEffect(progress, 'in'));
+      });
+      if (ticking && incomingScene.state !== 'exiting') {
+        this.tickScene(incomingScene, dt);
+      }
+    }
+  }
+
+  /**
+   * Starts the update loop for the SceneManager.
+   * Continuously updates the current scene and active transition.
+   */
+  private startUpdateLoop(): void {
+    if (this.isUpdating) return;
+    
+    this.isUpdating = true;
+    this.lastUpdateTime = this.scheduler.now();
+
+    const updateFrame = () => {
+      if (!this.isUpdating) return;
+
+      try {
+        this.update();
+      } finally {
+        // Keep the loop alive even if an update throws
+        if (this.isUpdating) {
+          this.cancelFrame = this.scheduler.requestFrame(updateFrame);
+        }
+      }
+    };
+
+    this.cancelFrame = this.scheduler.requestFrame(updateFrame);
+  }
+
+  /**
+   * Stops the update loop for the SceneManager.
+   */
+  public stopUpdateLoop(): void {
+    this.isUpdating = false;
+    this.cancelFrame?.();
+    this.cancelFrame = null;
+  }
+
+  /**
+   * Adds middleware that runs on every switchTo, back, forward and pushScene, after the
+   * current scene's canExit and before the new scene's canEnter.
+   * @param middleware - Returns true to allow, false to deny, or { redirect, params } to go
+   *   to another scene instead. May be async.
+   * @returns A disposer that removes the middleware.
+   */
+  public use(middleware: SceneMiddleware): () => void {
+    this.middleware.push(middleware);
+    return () => {
+      this.middleware = this.middleware.filter(other => other !== middleware);
+    };
+  }
+
+  /**
+   * Gets the store shared by every scene. Scenes reach the same store with getStore.
+   * @returns The manager's store.
+   */
+  public getStore(): Store<TState> {
+    return this.store;
+  }
+
+  /**
+   * Gets the input dispatcher that routes keyboard, pointer and other input to the scenes.
+   * @returns The manager's input dispatcher.
+   */
+  public getInput(): InputDispatcher {
+    return this.input;
+  }
+
+  /**
+   * Gives a scene input focus, so it gets input before the scenes above it.
+   * Focus is only honoured while the scene is active and is dropped when it exits.
+   * Without focus, the top-most active scene gets input first.
+   * @param sceneName - The name of the scene to focus, or null to clear the focus.
+   * @throws Error if the scene is not found.
+   */
+  public focusScene(sceneName: string | null): void {
+    if (sceneName === null) {
+      this.focusedScene = null;
+      return;
+    }
+
+    const scene = this.scenes.get(sceneName);
+    if (!scene) {
+      throw new Error(`Scene "${sceneName}" not found`);
+    }
+    this.focusedScene = scene;
+  }
+
+  /**
+   * Gets the scene that receives input first right now.
+   * @returns The focused scene if it is active, otherwise the top-most active scene, or null if none.
+   */
+  public getFocusedScene(): KolownScene | null {
+    return this.getInputTargets()[0] ?? null;
+  }
+
+  /**
+   * Hands an input to each target in turn until one consumes it. A throwing
+   * onInput is handled like a failing frame hook and lets the input through.
+   */
+  private routeInput(event: SceneInputEvent): boolean {
+    for (const scene of this.getInputTargets()) {
+      let consumed = false;
+      this.runFrameHook(scene, 'onInput', () => {
+        consumed = scene.onInput(event) === true;
+      });
+      if (consumed) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Scenes that may receive input, in the order they get it: the focused scene,
+   * then every other active scene from the top layer down. Paused, entering and
+   * exiting scenes get none.
+   */
+  private getInputTargets(): KolownScene[] {
+    const shown = this.getShownScenes().reverse().filter(scene => scene.isActive());
+
+    const focused = this.focusedScene;
+    if (!focused || !shown.includes(focused)) return shown;
+    return [focused, ...shown.filter(scene => scene !== focused)];
+  }
+
+  /**
+   * Tears the manager down in order: stops the update loop, cancels running and
+   * queued switches, exits every shown scene (top of the stack first, then the
+   * layers), then destroys and removes every scene, newest first. Listeners,
+   * middleware and attached input targets are dropped last. Hook errors are
+   * reported to onError, not thrown. The manager cannot switch scenes or take
+   * new ones afterwards.
+   * @returns A promise that resolves once everything is torn down.
+   */
+  public async destroy(): Promise<void> {
+    if (this.destroyed) return;
+    this.destroyed = true;
+    this.stopUpdateLoop();
+
+    this.switchTickets.forEach(ticket => ticket.cancel());
+    await this.switchQueue;
+    this.activeTransition = null;
+    this.outgoingScene = null;
+
+    await this.exitAllScenes();
+
+    for (const scene of Array.from(this.scenes.values()).reverse()) {
+      this.detachScene(scene);
+      await this.teardownScene(scene, false).catch(error => this.reportError(error, true));
+    }
+
+    this.previousScene = null;
+    this.layers = this.layers.filter(layer => layer.name === SceneManager.MAIN_LAYER);
+    this.navigationHistory = [];
+    this.historyIndex = -1;
+    this.middleware = [];
+    this.input.detachAll();
+    this.events.clear();
+  }
+
+  /**
+   * Checks if destroy has been called.
+   * @returns True if the manager has been destroyed, false otherwise.
+   */
+  public isDestroyed(): boolean {
+    return this.destroyed;
+  }
+
+  private assertNotDestroyed(): void {
+    if (this.destroyed) {
+      throw new Error('SceneManager has been destroyed');
+    }
+  }
+
+  /**
+   * Subscribes to a SceneManager event.
+   * @param event - The name of the event.
+   * @param listener - Called with the typed event payload.
+   * @returns A disposer that removes the listener.
+   */
+  public on<K extends keyof SceneManagerEvents>(
+    event: K,
+    listener: EventListener<SceneManagerEvents[K]>
+  ): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Subscribes to the next occurrence of a SceneManager event only.
+   * @param event - The name of the event.
+   * @param listener - Called with the typed event payload once.
+   * @returns A disposer that removes the listener if it has not fired yet.
+   */
+  public once<K extends keyof SceneManagerEvents>(
+    event: K,
+    listener: EventListener<SceneManagerEvents[K]>
+  ): () => void {
+    return this.events.once(event, listener);
+  }
+
+  /**
+   * Unsubscribes a listener from a SceneManager event.
+   * @param event - The name of the event.
+   * @param listener - The listener to remove.
+   */
+  public off<K extends keyof SceneManagerEvents>(
+    event: K,
+    listener: EventListener<SceneManagerEvents[K]>
+  ): void {
+    this.events.off(event, listener);
+  }
+
+  /**
+   * Gets the scene on top of the stack.
+   * @returns The current scene, or null if no scene is active.
+   */
+  public getCurrentScene(): KolownScene | null {
+    return this.currentScene;
+  }
+
+  /**
+   * Gets the scene that was current before the last switch, push or pop.
+   * @returns The previous scene, or null if there is none.
+   */
+  public getPreviousScene(): KolownScene | null {
+    return this.previousScene;
+  }
+
+  /**
+   * Gets the scene stack, ordered from bottom to top.
+   * @returns A copy of the stack; the last entry is the current scene.
+   * @throws Error if stack inspection is disabled.
+   */
+  public getSceneStack(): KolownScene[] {
+    if (!this.options.inspectableStack) {
+      throw new Error('Scene stack inspection is disabled');
+    }
+    return this.getSceneStackUnchecked();
+  }
+
+  /**
+   * Saves the scene graph: every scene's data and custom state, the scene stack and the layers.
+   * Scene types are looked up in the registry option so deserialize can recreate them.
+   * @param serializeOptions - Optional version to write (default: SCENE_GRAPH_VERSION).
+   * @returns A JSON-serializable snapshot.
+   */
+  public serialize(serializeOptions: SerializeOptions = {}): SerializedSceneGraph {
+    return {
+      version: serializeOptions.version ?? SCENE_GRAPH_VERSION,
+      scenes: Array.from(this.scenes.values()).map(scene => ({
+        name: scene.name,
+        type: this.registry.getType(scene) ?? null,
+        state: scene.state,
+        data: { ...scene.data },
+        custom: scene.serialize()
+      })),
+      stack: this.getSceneStackUnchecked().map(scene => scene.name),
+      layers: this.layers
+        .filter(layer => layer.name !== SceneManager.MAIN_LAYER)
+        .map(layer => ({
+          name: layer.name,
+          zIndex: layer.zIndex,
+          scene: layer.scene ? layer.scene.name : null
+        })),
+      background: this.backgroundScenes.map(scene => scene.name)
+    };
+  }
+
+  /**
+   * Restores a scene graph saved with serialize.
+   * Older saves are migrated first. Every shown scene is exited, scenes missing
+   * from the manager are recreated through the registry, their data and custom
+   * state are restored, and the stack and layers are entered again in order,
+   * followed by the background scenes that were running.
+   * @param graph - The saved scene graph, e.g. the result of JSON.parse.
+   * @param deserializeOptions - The version this app understands and migrations for older saves.
+   * @throws Error if the graph cannot be migrated or a scene cannot be recreated.
+   */
+  public async deserialize(graph: unknown, deserializeOptions: DeserializeOptions = {}): Promise<void> {
+    const migrated = migrateSceneGraph(graph, deserializeOptions.migrations, deserializeOptions.version);
+
+    // Create every scene up front so a bad save fails before anything is torn down
+    const restoredScenes = await Promise.all(migrated.scenes.map(saved => {
+      if (this.scenes.has(saved.name) || this.registry.hasFactory(saved.name)) {
+        return this.resolveScene(saved.name);
+      }
+
+      if (!saved.type || !this.registry.has(saved.type)) {
+        throw new Error(`Cannot recreate scene "${saved.name}": type "${saved.type}" is not registered`);
+      }
+      return this.registry.create(saved.type, saved.name);
+    }));
+
+    const restoredSceneName = migrated.stack[migrated.stack.length - 1] ?? '';
+    await this.runSwitch(restoredSceneName, async () => {
+      await this.exitAllScenes();
+    });
+
+    migrated.scenes.forEach((saved, index) => {
+      const scene = restoredScenes[index];
+      if (!this.scenes.has(scene.name)) {
+        this.addScene(scene);
+        if (this.registry.hasFactory(scene.name)) {
+          this.lazySceneUsage.set(scene, this.scheduler.now());
+        }
+      }
+      scene.data = { ...saved.data };
+      if (saved.custom !== undefined) {
+        scene.deserialize(saved.custom);
+      }
+    });
+
+    const [bottom, ...pushed] = migrated.stack;
+    if (bottom) {
+      await this.untyped().switchTo(bottom);
+    }
+    for (const sceneName of pushed) {
+      await this.untyped().pushScene(sceneName);
+    }
+
+    for (const savedLayer of migrated.layers) {
+      if (!this.layers.some(layer => layer.name === savedLayer.name)) {
+        this.addLayer(savedLayer.name, savedLayer.zIndex);
+      }
+      if (savedLayer.scene) {
+        await this.untyped().switchLayerTo(savedLayer.name, savedLayer.scene);
+      }
+    }
+
+    for (const sceneName of migrated.background ?? []) {
+      await this.untyped().startBackgroundScene(sceneName);
+    }
+
+    // Scenes that were paused by the user stay paused
+    for (const saved of migrated.scenes) {
+      const scene = this.scenes.get(saved.name);
+      if (scene && saved.state === 'paused') {
+        this.pauseScene(scene);
+      }
+    }
+  }
+
+  /**
+   * Exits every scene on the stack, in the layers and in the background, top of the stack first.
+   * A failing onExit is reported and does not stop the others.
+   */
+  private async exitAllScenes(): Promise<void> {
+    const shownScenes = [
+      ...this.getSceneStackUnchecked().reverse(),
+      ...this.layers.map(layer => layer.scene),
+      ...this.backgroundScenes
+    ];
+
+    this.currentScene = null;
+    this.coveredScenes = [];
+    this.backgroundScenes = [];
+    this.layers.forEach(layer => {
+      layer.scene = null;
+    });
+    this.updatePageWatch();
+
+    for (const scene of shownScenes) {
+      if (scene && (scene.isActive() || scene.isPaused())) {
+        this.setSceneState(scene, 'exiting');
+        try {
+          await this.runHook(scene, 'onExit', () => scene.onExit());
+        } catch (error) {
+          this.reportError(error, true);
+        } finally {
+          this.setSceneState(scene, 'inactive');
+        }
+      }
+    }
+  }
+
+  /**
+   * Views this manager without its scene map, for scene names that only exist at runtime.
+   */
+  private untyped(): SceneManager {
+    return this as unknown as SceneManager;
+  }
+
+  private getSceneStackUnchecked(): KolownScene[] {
+    return this.currentScene
+      ? [...this.coveredScenes, this.currentScene]
+      : [...this.coveredScenes];
+  }
+
+  /**
+   * Gets the names of all scenes managed by the SceneManager.
+   * @returns An array of scene names.
+   */
+  public getScenes(): string[] {
+    return Array.from(this.scenes.keys());
+  }
+
+  /**
+   * Gets a scene by name.
+   * @param sceneName - The name of the scene.
+   * @returns The scene, or null if the manager has no scene by that name.
+   */
+  public getScene(sceneName: string): KolownScene | null {
+    return this.scenes.get(sceneName) ?? null;
   }
 
   /**
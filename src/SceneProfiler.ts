@@ -0,0 +1,225 @@
+import {
+  Clock,
+  FrameProfileEvent,
+  FrameTimeStats,
+  HookTiming,
+  PerformanceSnapshot,
+  ProfilerOptions,
+  SceneErrorPhase,
+  SceneTimings,
+  TransitionEndEvent,
+  TransitionStartEvent,
+  TransitionTiming
+} from './types';
+import { systemClock } from './Scheduler';
+
+/**
+ * Most recent transitions kept for the snapshot.
+ */
+const MAX_TRANSITIONS = 20;
+
+/**
+ * High-resolution time from performance.now when available.
+ */
+const performanceClock: Clock = typeof performance !== 'undefined' && typeof performance.now === 'function'
+  ? { now: () => performance.now() }
+  : systemClock;
+
+interface PendingTransition {
+  from: string | null;
+  startTime: number;
+  expectedDuration: number;
+}
+
+/**
+ * Measures how long each scene's hooks take, how long whole frames take and
+ * how long transitions run. SceneManager feeds it when profiling is enabled;
+ * read the results with getSnapshot or listen to the manager's frameProfiled,
+ * frameBudgetExceeded and transitionProfiled events.
+ */
+export class SceneProfiler {
+  public readonly frameBudget: number;
+  private readonly sampleSize: number;
+  private readonly clock: Clock;
+  private frameDurations: number[] = [];
+  private frameDeltas: number[] = [];
+  private frames = 0;
+  private budgetOverruns = 0;
+  private sceneTimings: Map<string, SceneTimings> = new Map();
+  private transitions: TransitionTiming[] = [];
+  private pendingTransitions: Map<string, PendingTransition> = new Map();
+  private frameStartTime: number | null = null;
+  private frameScenes: Record<string, number> = {};
+
+  /**
+   * Constructor for SceneProfiler.
+   * @param options - Configuration options for the profiler.
+   *   - frameBudget: Milliseconds a frame may take before it counts as an overrun (default: 1000 / 60).
+   *   - sampleSize: Number of recent frames FPS and percentiles are computed from (default: 120).
+   *   - clock: Clock that times hooks and frames (default: performance.now when available).
+   */
+  constructor(options: ProfilerOptions = {}) {
+    this.frameBudget = options.frameBudget ?? 1000 / 60;
+    this.sampleSize = options.sampleSize ?? 120;
+    this.clock = options.clock ?? performanceClock;
+  }
+
+  /**
+   * Reads the profiler's clock, to pass as startTime to recordHook.
+   * @returns The current time in milliseconds.
+   */
+  public now(): number {
+    return this.clock.now();
+  }
+
+  /**
+   * Starts timing a frame. Hooks recorded until endFrame count towards it.
+   */
+  public beginFrame(): void {
+    this.frameStartTime = this.clock.now();
+    this.frameScenes = {};
+  }
+
+  /**
+   * Finishes timing a frame.
+   * @param deltaTime - The unscaled time the frame covered.
+   * @returns The frame's duration, its deltaTime and the time each scene used.
+   */
+  public endFrame(deltaTime: number): FrameProfileEvent {
+    const duration = this.frameStartTime === null ? 0 : this.clock.now() - this.frameStartTime;
+    this.frameStartTime = null;
+
+    this.frames++;
+    if (duration > this.frameBudget) {
+      this.budgetOverruns++;
+    }
+    this.frameDurations.push(duration);
+    this.frameDeltas.push(deltaTime);
+    if (this.frameDurations.length > this.sampleSize) {
+      this.frameDurations.shift();
+      this.frameDeltas.shift();
+    }
+
+    return { duration, deltaTime, budget: this.frameBudget, scenes: this.frameScenes };
+  }
+
+  /**
+   * Records one call of a scene's hook that started at startTime and has just finished.
+   * @param sceneName - The name of the scene.
+   * @param hook - The hook that ran.
+   * @param startTime - The value now returned before the hook ran.
+   */
+  public recordHook(sceneName: string, hook: SceneErrorPhase, startTime: number): void {
+    const duration = this.clock.now() - startTime;
+
+    let timings = this.sceneTimings.get(sceneName);
+    if (!timings) {
+      timings = {};
+      this.sceneTimings.set(sceneName, timings);
+    }
+    const timing = timings[hook] ?? { calls: 0, total: 0, average: 0, max: 0, last: 0 };
+    timing.calls++;
+    timing.total += duration;
+    timing.average = timing.total / timing.calls;
+    timing.max = Math.max(timing.max, duration);
+    timing.last = duration;
+    timings[hook] = timing;
+
+    if (this.frameStartTime !== null) {
+      this.frameScenes[sceneName] = (this.frameScenes[sceneName] ?? 0) + duration;
+    }
+  }
+
+  /**
+   * Starts timing a transition.
+   * @param event - The manager's transitionStart event.
+   */
+  public transitionStarted(event: TransitionStartEvent): void {
+    this.pendingTransitions.set(event.to.name, {
+      from: event.from?.name ?? null,
+      startTime: this.clock.now(),
+      expectedDuration: event.duration
+    });
+  }
+
+  /**
+   * Finishes timing a transition.
+   * @param event - The manager's transitionEnd event.
+   * @returns The transition's timing, or null if it started before profiling did.
+   */
+  public transitionEnded(event: TransitionEndEvent): TransitionTiming | null {
+    const pending = this.pendingTransitions.get(event.to.name);
+    if (!pending) return null;
+    this.pendingTransitions.delete(event.to.name);
+
+    const timing: TransitionTiming = {
+      from: pending.from,
+      to: event.to.name,
+      duration: this.clock.now() - pending.startTime,
+      expectedDuration: pending.expectedDuration,
+      cancelled: event.cancelled,
+      reversed: event.reversed
+    };
+    this.transitions.push(timing);
+    if (this.transitions.length > MAX_TRANSITIONS) {
+      this.transitions.shift();
+    }
+    return timing;
+  }
+
+  /**
+   * Gets everything measured so far.
+   * @returns FPS and frame-time percentiles over the recent frames, frame and overrun
+   *   counts, hook timings per scene and the most recent transitions.
+   */
+  public getSnapshot(): PerformanceSnapshot {
+    const scenes: Record<string, SceneTimings> = {};
+    this.sceneTimings.forEach((timings, sceneName) => {
+      scenes[sceneName] = {};
+      for (const hook of Object.keys(timings) as SceneErrorPhase[]) {
+        scenes[sceneName][hook] = { ...timings[hook] } as HookTiming;
+      }
+    });
+
+    const elapsed = this.frameDeltas.reduce((sum, deltaTime) => sum + deltaTime, 0);
+    return {
+      frames: this.frames,
+      fps: elapsed > 0 ? (this.frameDeltas.length * 1000) / elapsed : 0,
+      frameTime: this.getFrameTimeStats(),
+      frameBudget: this.frameBudget,
+      budgetOverruns: this.budgetOverruns,
+      scenes,
+      transitions: this.transitions.map(timing => ({ ...timing }))
+    };
+  }
+
+  /**
+   * Forgets everything measured so far.
+   */
+  public reset(): void {
+    this.frameDurations = [];
+    this.frameDeltas = [];
+    this.frames = 0;
+    this.budgetOverruns = 0;
+    this.sceneTimings.clear();
+    this.transitions = [];
+    this.pendingTransitions.clear();
+  }
+
+  private getFrameTimeStats(): FrameTimeStats {
+    const sorted = [...this.frameDurations].sort((a, b) => a - b);
+    if (sorted.length === 0) {
+      return { average: 0, p50: 0, p95: 0, p99: 0, max: 0 };
+    }
+
+    // Nearest-rank percentile
+    const percentile = (p: number) => sorted[Math.max(Math.ceil((p / 100) * sorted.length) - 1, 0)];
+    return {
+      average: sorted.reduce((sum, duration) => sum + duration, 0) / sorted.length,
+      p50: percentile(50),
+      p95: percentile(95),
+      p99: percentile(99),
+      max: sorted[sorted.length - 1]
+    };
+  }
+}
@@ -3,13 +3,25 @@ import { KolownScene } from './Scene';
 /**
  * A constructor type for creating scenes.
  */
-type SceneConstructor = new (name: string, ...args: any[]) => KolownScene;
+export type SceneConstructor = new (name: string, ...args: any[]) => KolownScene;
 
-/**npx jest src/__tests__/SceneRegistry.test.ts
+/**
+ * What a scene factory may produce: a scene, a scene class, or a module whose
+ * default export is a scene class (the result of a dynamic import()).
+ */
+export type SceneFactoryResult = KolownScene | SceneConstructor | { default: SceneConstructor };
+
+/**
+ * A sync or async function that builds a scene on first use.
+ */
+export type SceneFactory = (name: string) => SceneFactoryResult | Promise<SceneFactoryResult>;
+
+/**
  * A registry for managing and creating scenes dynamically.
  */
 export class SceneRegistry {
   private registry: Map<string, SceneConstructor> = new Map();
+  private factories: Map<string, SceneFactory> = new Map();
 
   /**
    * Registers a new scene type.
@@ -35,4 +47,81 @@ export class SceneRegistry {
     }
     return new constructor(name, ...args);
   }
+
+  /**
+   * Registers a factory that builds a named scene on first use.
+   * @param name - The name of the scene the factory builds.
+   * @param factory - A sync or async function returning a scene, a scene class or a module
+   *   whose default export is a scene class, e.g. () => import('./LevelScene').
+   */
+  registerFactory(name: string, factory: SceneFactory): void {
+    this.factories.set(name, factory);
+  }
+
+  /**
+   * Checks if a factory is registered for a scene name.
+   * @param name - The name of the scene.
+   * @returns True if a factory is registered, false otherwise.
+   */
+  hasFactory(name: string): boolean {
+    return this.factories.has(name);
+  }
+
+  /**
+   * Gets the names of all scenes registered through factories.
+   * @returns An array of scene names.
+   */
+  getFactoryNames(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  /**
+   * Builds a scene with its registered factory.
+   * @param name - The name of the scene to build.
+   * @returns A promise resolving to the new scene instance.
+   * @throws Will throw an error if no factory is registered or the factory
+   *   produces something other than a scene.
+   */
+  async createFromFactory(name: string): Promise<KolownScene> {
+    const factory = this.factories.get(name);
+    if (!factory) {
+      throw new Error(`No factory is registered for scene "${name}".`);
+    }
+
+    const result = await factory(name);
+    const scene = result instanceof KolownScene
+      ? result
+      : new ('default' in result ? result.default : result)(name);
+
+    if (!(scene instanceof KolownScene)) {
+      throw new Error(`Factory for scene "${name}" did not produce a scene.`);
+    }
+    if (scene.name !== name) {
+      throw new Error(`Factory for scene "${name}" produced a scene named "${scene.name}".`);
+    }
+    return scene;
+  }
+
+  /**
+   * Checks if a scene type is registered.
+   * @param type - The type identifier to check.
+   * @returns True if the type is registered, false otherwise.
+   */
+  has(type: string): boolean {
+    return this.registry.has(type);
+  }
+
+  /**
+   * Finds the registered type of a scene instance by its constructor.
+   * @param scene - The scene to look up.
+   * @returns The type identifier, or undefined if the scene's class is not registered.
+   */
+  getType(scene: KolownScene): string | undefined {
+    for (const [type, constructor] of this.registry) {
+      if (scene.constructor === constructor) {
+        return type;
+      }
+    }
+    return undefined;
+  }
 }
@@ -0,0 +1,239 @@
+import { SceneManager } from './SceneManager';
+import { NavigatedEvent, SceneHistoryEntry, SceneRoute, SceneRouterOptions } from './types';
+
+interface RouteMatch {
+  route: SceneRoute;
+  params: unknown;
+}
+
+/**
+ * Keeps a SceneManager and a path in sync. Path changes from the history
+ * (deep links, the back button, typed URLs) switch scenes, and scene switches
+ * update the path.
+ */
+export class SceneRouter {
+  private disposers: Array<() => void> = [];
+
+  /**
+   * @param sceneManager - The manager to drive.
+   * @param options - Routes such as { path: '/level/:id', scene: 'level' }, the history to
+   *   read paths from, an optional scene for unknown paths, and an error handler for
+   *   switches started by path changes (default: console.error).
+   */
+  constructor(
+    private sceneManager: SceneManager<any, any>,
+    private options: SceneRouterOptions
+  ) {}
+
+  /**
+   * Starts listening and opens the scene for the current path.
+   * @returns A promise that resolves once the scene for the current path is shown.
+   * @throws Error if no route matches the current path and there is no notFoundScene.
+   */
+  public async start(): Promise<void> {
+    this.stop();
+    this.disposers.push(
+      this.options.history.listen(path => {
+        this.followHistory(path).catch(error => this.reportError(error, path));
+      }),
+      this.sceneManager.on('navigated', event => this.syncPath(event))
+    );
+
+    await this.openPath(this.options.history.getPath());
+  }
+
+  /**
+   * Stops listening to the history and the manager.
+   */
+  public stop(): void {
+    this.disposers.forEach(dispose => dispose());
+    this.disposers = [];
+  }
+
+  /**
+   * Opens a path as if the user had navigated to it, adding it to the history.
+   * @param path - The path to open.
+   * @throws Error if no route matches and there is no notFoundScene.
+   */
+  public async navigate(path: string): Promise<void> {
+    this.options.history.push(path);
+    await this.openPath(path);
+  }
+
+  /**
+   * Builds the path of a scene from the first route for it.
+   * @param sceneName - The name of the scene.
+   * @param params - The params the scene is entered with.
+   * @returns The path, e.g. '/level/3'.
+   * @throws Error if no route points at the scene or a path param is missing.
+   */
+  public pathFor(sceneName: string, params?: unknown): string {
+    const route = this.options.routes.find(candidate => candidate.scene === sceneName);
+    if (!route) {
+      throw new Error(`No route for scene "${sceneName}"`);
+    }
+
+    const values: Record<string, unknown> = route.format
+      ? route.format(params)
+      : (params ?? {}) as Record<string, unknown>;
+
+    const segments = splitPath(route.path).map(segment => {
+      if (!segment.startsWith(':')) return segment;
+
+      const value = values[segment.slice(1)];
+      if (value === undefined || value === null) {
+        throw new Error(`Missing param "${segment.slice(1)}" for route "${route.path}"`);
+      }
+      return encodeURIComponent(String(value));
+    });
+    return `/${segments.join('/')}`;
+  }
+
+  /**
+   * Finds the route for a path and the params it carries.
+   * @param path - The path, optionally with a query string.
+   * @returns The matching route and params, or null if none matches.
+   */
+  public match(path: string): RouteMatch | null {
+    const [pathname, search = ''] = path.split('?');
+    const pathSegments = splitPath(pathname);
+    const query = parseQuery(search);
+
+    for (const route of this.options.routes) {
+      const pathParams = matchSegments(splitPath(route.path), pathSegments);
+      if (!pathParams) continue;
+
+      if (route.parse) {
+        return { route, params: route.parse(pathParams, query) };
+      }
+      const values = { ...query, ...pathParams };
+      return { route, params: Object.keys(values).length > 0 ? values : undefined };
+    }
+    return null;
+  }
+
+  /**
+   * Opens a path the history moved to on its own. The back and forward buttons only
+   * report the new path, so a path that matches the manager's previous or next history
+   * entry is followed with back or forward, keeping both histories in step; any other
+   * path is opened as a new entry. When both neighbours match, back wins. A path the
+   * manager is already on, e.g. after syncPath moved the history, is left alone.
+   */
+  private async followHistory(path: string): Promise<void> {
+    const entries = this.sceneManager.getHistory();
+    const index = this.sceneManager.getHistoryIndex();
+
+    if (this.entryMatchesPath(entries[index], path)) return;
+
+    if (this.entryMatchesPath(entries[index - 1], path)) {
+      await this.sceneManager.back();
+    } else if (this.entryMatchesPath(entries[index + 1], path)) {
+      await this.sceneManager.forward();
+    } else {
+      await this.openPath(path);
+    }
+  }
+
+  private entryMatchesPath(entry: SceneHistoryEntry | undefined, path: string): boolean {
+    if (!entry) return false;
+
+    const routeMatch = this.match(path);
+    if (!routeMatch) {
+      return entry.sceneName === this.options.notFoundScene && JSON.stringify(entry.params) === JSON.stringify({ path });
+    }
+    if (entry.sceneName !== routeMatch.route.scene) return false;
+    if (JSON.stringify(entry.params) === JSON.stringify(routeMatch.params)) return true;
+
+    // Switches made in code carry their own params, e.g. { id: 3 } for '/level/3'
+    try {
+      return this.pathFor(entry.sceneName, entry.params) === path;
+    } catch (_error) {
+      return false;
+    }
+  }
+
+  private async openPath(path: string): Promise<void> {
+    const routeMatch = this.match(path);
+    if (routeMatch) {
+      await this.sceneManager.switchTo(routeMatch.route.scene, routeMatch.params);
+      return;
+    }
+
+    if (this.options.notFoundScene) {
+      await this.sceneManager.switchTo(this.options.notFoundScene, { path });
+      return;
+    }
+    throw new Error(`No route matches path "${path}"`);
+  }
+
+  /**
+   * Writes the path of a scene the manager navigated to, unless the history is already there.
+   * Scenes without a route leave the path unchanged. Going back or forward moves the history
+   * the same way instead of adding an entry.
+   */
+  private syncPath(event: NavigatedEvent): void {
+    if (event.scene.name === this.options.notFoundScene) return;
+    if (!this.options.routes.some(route => route.scene === event.scene.name)) return;
+
+    // Switches opened from the current path, query string included, leave it alone
+    const currentPath = this.options.history.getPath();
+    const current = this.match(currentPath);
+    if (current?.route.scene === event.scene.name && JSON.stringify(current.params) === JSON.stringify(event.params)) {
+      return;
+    }
+
+    const path = this.pathFor(event.scene.name, event.params);
+    if (path === currentPath) return;
+
+    const { history } = this.options;
+    if (event.action === 'back' || event.action === 'forward') {
+      // The listener hears the move and finds the manager already there
+      if (history.go) {
+        history.go(event.action === 'back' ? -1 : 1);
+      } else {
+        history.replace(path);
+      }
+    } else if (event.action === 'replace') {
+      history.replace(path);
+    } else {
+      history.push(path);
+    }
+  }
+
+  private reportError(error: unknown, path: string): void {
+    if (this.options.onError) {
+      this.options.onError(error, path);
+    } else {
+      console.error(`Error opening path "${path}":`, error);
+    }
+  }
+}
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter(segment => segment.length > 0);
+}
+
+function matchSegments(routeSegments: string[], pathSegments: string[]): Record<string, string> | null {
+  if (routeSegments.length !== pathSegments.length) return null;
+
+  const pathParams: Record<string, string> = {};
+  for (let i = 0; i < routeSegments.length; i++) {
+    const routeSegment = routeSegments[i];
+    if (routeSegment.startsWith(':')) {
+      pathParams[routeSegment.slice(1)] = decodeURIComponent(pathSegments[i]);
+    } else if (routeSegment !== pathSegments[i]) {
+      return null;
+    }
+  }
+  return pathParams;
+}
+
+function parseQuery(search: string): Record<string, string> {
+  const query: Record<string, string> = {};
+  for (const pair of search.split('&')) {
+    if (!pair) continue;
+    const [key, value = ''] = pair.split('=');
+    query[decodeURIComponent(key)] = decodeURIComponent(value);
+  }
+  return query;
+}
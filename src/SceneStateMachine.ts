@@ -0,0 +1,25 @@
+import { SceneState } from './types';
+
+/**
+ * The legal transitions between scene states.
+ * A scene always enters through 'entering' and leaves through 'exiting';
+ * only an active scene can be paused. A reversed transition turns an
+ * entering scene back into an exiting one, and the other way round.
+ */
+export const SCENE_STATE_TRANSITIONS: Readonly<Record<SceneState, readonly SceneState[]>> = {
+  inactive: ['entering'],
+  entering: ['active', 'exiting'],
+  active: ['paused', 'exiting'],
+  paused: ['active', 'exiting'],
+  exiting: ['inactive', 'entering']
+};
+
+/**
+ * Checks if a scene may move from one state to another.
+ * @param from - The current state.
+ * @param to - The requested state.
+ * @returns True if the transition is legal, false otherwise.
+ */
+export function canTransition(from: SceneState, to: SceneState): boolean {
+  return SCENE_STATE_TRANSITIONS[from].includes(to);
+}
@@ -1,11 +1,24 @@
-import { SceneTransitionOptions } from './types';
+import { Clock, SceneTransitionOptions, SceneVisualState, TransitionDirection } from './types';
+import { systemClock } from './Scheduler';
 
 export class SceneTransition {
-  private startTime: number = 0;
+  /**
+   * Multiplies the time the transition advances by, e.g. 0.5 to run at half speed.
+   */
+  public timeScale = 1;
+  private elapsed = 0;
+  private lastTime = 0;
   private isRunning: boolean = false;
+  private paused = false;
+  private reversed = false;
   
+  /**
+   * @param options - Duration, easing and completion callback.
+   * @param clock - Where the transition reads the time from (default: Date.now).
+   */
   constructor(
-    private options: SceneTransitionOptions = {}
+    private options: SceneTransitionOptions = {},
+    private clock: Clock = systemClock
   ) {
     this.options = {
       duration: 1000,
@@ -15,25 +28,114 @@ export class SceneTransition {
   }
 
   public start(): void {
-    this.startTime = Date.now();
+    this.elapsed = 0;
+    this.lastTime = this.clock.now();
     this.isRunning = true;
+    this.paused = false;
+    this.reversed = false;
   }
 
-  public update(): number {
+  /**
+   * Advances the transition and returns its eased progress. A reversed
+   * transition moves back towards 0, and a paused one stays where it is.
+   * The transition completes when it reaches the end it is heading for.
+   * @param deltaTime - Milliseconds to advance by. Without it, the time since the last
+   *   update is read from the clock.
+   * @returns The eased progress, from 0 to 1.
+   */
+  public update(deltaTime?: number): number {
     if (!this.isRunning) return 1;
 
-    const elapsed = Date.now() - this.startTime;
-    const progress = Math.min(elapsed / (this.options.duration || 1000), 1);
-    
-    const easedProgress = this.options.easing ? this.options.easing(progress) : progress;
+    this.advance(deltaTime);
 
-    if (progress >= 1) {
+    const progress = this.getRawProgress();
+    const easedProgress = this.ease(progress);
+
+    if (this.reversed ? progress <= 0 : progress >= 1) {
       this.complete();
     }
 
     return easedProgress;
   }
 
+  /**
+   * Stops the transition from advancing until resume is called.
+   * Time up to the call still counts.
+   */
+  public pause(): void {
+    if (this.isRunning && !this.paused) {
+      this.advance();
+      this.paused = true;
+    }
+  }
+
+  /**
+   * Lets a paused transition advance again. Time spent paused is skipped.
+   */
+  public resume(): void {
+    if (!this.paused) return;
+
+    this.paused = false;
+    this.lastTime = this.clock.now();
+  }
+
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Turns the transition around. A reversed transition runs back to progress 0
+   * and completes there; reversing again heads for 1 once more.
+   */
+  public reverse(): void {
+    if (this.isRunning) {
+      this.advance();
+      this.reversed = !this.reversed;
+    }
+  }
+
+  public isReversed(): boolean {
+    return this.reversed;
+  }
+
+  /**
+   * Jumps to a point in the transition. Reaching the end the transition is
+   * heading for completes it on the next update.
+   * @param progress - The linear progress to jump to, from 0 to 1.
+   */
+  public seek(progress: number): void {
+    this.elapsed = Math.min(Math.max(progress, 0), 1) * this.getDuration();
+  }
+
+  /**
+   * Gets the eased progress without advancing the transition.
+   * @returns The eased progress, from 0 to 1.
+   */
+  public getProgress(): number {
+    return this.ease(this.getRawProgress());
+  }
+
+  private advance(deltaTime?: number): void {
+    const now = this.clock.now();
+    if (!this.paused) {
+      const delta = (deltaTime ?? now - this.lastTime) * this.timeScale;
+      this.elapsed += this.reversed ? -delta : delta;
+    }
+    this.lastTime = now;
+  }
+
+  private getRawProgress(): number {
+    return Math.min(Math.max(this.elapsed / this.getDuration(), 0), 1);
+  }
+
+  private getDuration(): number {
+    return this.options.duration || 1000;
+  }
+
+  private ease(progress: number): number {
+    return this.options.easing ? this.options.easing(progress) : progress;
+  }
+
   public complete(): void {
     this.isRunning = false;
     if (this.options.onComplete) {
@@ -45,6 +147,16 @@ export class SceneTransition {
     return this.isRunning;
   }
 
+  /**
+   * Describes how a scene should look at the given progress, using the effect option.
+   * @param progress - The eased progress, as returned by update.
+   * @param direction - 'in' for the incoming scene, 'out' for the outgoing one.
+   * @returns The scene's visual state, or undefined when no effect is set.
+   */
+  public renderEffect(progress: number, direction: TransitionDirection): SceneVisualState | undefined {
+    return this.options.effect?.render(progress, direction);
+  }
+
   // Common easing functions
   public static easeInOut(t: number): number {
     return t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t;
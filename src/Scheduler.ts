@@ -0,0 +1,166 @@
+import { Clock, Scheduler } from './types';
+
+/**
+ * Wall-clock time from Date.now.
+ */
+export const systemClock: Clock = {
+  now: () => Date.now()
+};
+
+/**
+ * Runs frames with requestAnimationFrame. For browsers.
+ */
+export class AnimationFrameScheduler implements Scheduler {
+  public now(): number {
+    return Date.now();
+  }
+
+  public requestFrame(callback: () => void): () => void {
+    const handle = requestAnimationFrame(() => callback());
+    return () => cancelAnimationFrame(handle);
+  }
+
+  public setTimeout(callback: () => void, delay: number): () => void {
+    const handle = setTimeout(callback, delay);
+    return () => clearTimeout(handle);
+  }
+}
+
+/**
+ * Runs frames with setTimeout, or setImmediate when the frame interval is 0.
+ * For Node, workers and anywhere else without requestAnimationFrame.
+ */
+export class TimerScheduler implements Scheduler {
+  /**
+   * @param frameInterval - Milliseconds between frames (default: 1000 / 60).
+   */
+  constructor(private frameInterval = 1000 / 60) {}
+
+  public now(): number {
+    return Date.now();
+  }
+
+  public requestFrame(callback: () => void): () => void {
+    if (this.frameInterval === 0 && typeof setImmediate === 'function') {
+      const handle = setImmediate(callback);
+      return () => clearImmediate(handle);
+    }
+    return this.setTimeout(callback, this.frameInterval);
+  }
+
+  public setTimeout(callback: () => void, delay: number): () => void {
+    const handle = setTimeout(callback, delay);
+    return () => clearTimeout(handle);
+  }
+}
+
+interface ManualTimer {
+  id: number;
+  dueTime: number;
+  callback: () => void;
+}
+
+/**
+ * A scheduler that only moves when told to. Time starts at the given value
+ * and frames and timers run from advance and runFrame, so tests and replays
+ * are fully deterministic.
+ */
+export class ManualScheduler implements Scheduler {
+  private time: number;
+  private nextTimerId = 0;
+  private frameCallbacks: Array<() => void> = [];
+  private timers: ManualTimer[] = [];
+
+  /**
+   * @param startTime - The time now() returns before the first advance (default: 0).
+   */
+  constructor(startTime = 0) {
+    this.time = startTime;
+  }
+
+  public now(): number {
+    return this.time;
+  }
+
+  public requestFrame(callback: () => void): () => void {
+    this.frameCallbacks.push(callback);
+    return () => {
+      this.frameCallbacks = this.frameCallbacks.filter(pending => pending !== callback);
+    };
+  }
+
+  public setTimeout(callback: () => void, delay: number): () => void {
+    const timer = { id: this.nextTimerId++, dueTime: this.time + Math.max(delay, 0), callback };
+    this.timers.push(timer);
+    return () => {
+      this.timers = this.timers.filter(pending => pending !== timer);
+    };
+  }
+
+  /**
+   * Moves time forward, running timers as they fall due, earliest first.
+   * @param ms - Milliseconds to advance.
+   */
+  public advance(ms: number): void {
+    const targetTime = this.time + ms;
+
+    let timer = this.nextDueTimer(targetTime);
+    while (timer) {
+      this.timers = this.timers.filter(pending => pending !== timer);
+      this.time = timer.dueTime;
+      timer.callback();
+      timer = this.nextDueTimer(targetTime);
+    }
+
+    this.time = targetTime;
+  }
+
+  /**
+   * Advances time by one frame and runs the frame callbacks that were waiting.
+   * Callbacks requested while the frame runs wait for the next one.
+   * @param frameTime - Milliseconds the frame lasts (default: 1000 / 60).
+   */
+  public runFrame(frameTime = 1000 / 60): void {
+    this.advance(frameTime);
+
+    const callbacks = this.frameCallbacks;
+    this.frameCallbacks = [];
+    callbacks.forEach(callback => callback());
+  }
+
+  /**
+   * Runs several frames in a row.
+   * @param count - The number of frames.
+   * @param frameTime - Milliseconds each frame lasts (default: 1000 / 60).
+   */
+  public runFrames(count: number, frameTime = 1000 / 60): void {
+    for (let i = 0; i < count; i++) {
+      this.runFrame(frameTime);
+    }
+  }
+
+  /**
+   * Checks if any frame callbacks or timers are waiting.
+   * @returns True if something is scheduled, false otherwise.
+   */
+  public hasPending(): boolean {
+    return this.frameCallbacks.length > 0 || this.timers.length > 0;
+  }
+
+  private nextDueTimer(targetTime: number): ManualTimer | undefined {
+    return this.timers
+      .filter(timer => timer.dueTime <= targetTime)
+      .sort((a, b) => a.dueTime - b.dueTime || a.id - b.id)[0];
+  }
+}
+
+/**
+ * Picks the scheduler for the current environment: requestAnimationFrame when
+ * it exists, timers otherwise.
+ * @returns A new scheduler.
+ */
+export function createDefaultScheduler(): Scheduler {
+  return typeof requestAnimationFrame === 'function'
+    ? new AnimationFrameScheduler()
+    : new TimerScheduler();
+}
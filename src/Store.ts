@@ -0,0 +1,116 @@
+/**
+ * Called after the store's state changes.
+ */
+export type StoreListener<TState> = (state: Readonly<TState>, previousState: Readonly<TState>) => void;
+
+/**
+ * Called when the value picked by a selector changes.
+ */
+export type StoreSelectionListener<TSelected> = (value: TSelected, previousValue: TSelected) => void;
+
+/**
+ * A partial state to merge in, or a function computing one from the current state.
+ */
+export type StoreUpdate<TState> = Partial<TState> | ((state: Readonly<TState>) => Partial<TState>);
+
+/**
+ * A typed store for state shared between scenes, such as scores, settings or
+ * inventory. SceneManager owns one and every scene it manages can reach it
+ * through getStore. State is replaced, never mutated: setState merges the
+ * update into a new object and notifies the listeners.
+ */
+export class Store<TState extends object> {
+  private state: TState;
+  private listeners: Set<StoreListener<TState>> = new Set();
+
+  /**
+   * Constructor for Store.
+   * @param initialState - The state the store starts with and returns to on reset.
+   */
+  constructor(private readonly initialState: TState) {
+    this.state = { ...initialState };
+  }
+
+  /**
+   * Gets the current state.
+   * @returns The current state. Treat it as read-only and use setState to change it.
+   */
+  public getState(): Readonly<TState> {
+    return this.state;
+  }
+
+  /**
+   * Reads part of the current state.
+   * @param selector - Picks the value from the state.
+   * @returns The selected value.
+   */
+  public select<TSelected>(selector: (state: Readonly<TState>) => TSelected): TSelected {
+    return selector(this.state);
+  }
+
+  /**
+   * Shallowly merges an update into the state and notifies every listener.
+   * @param update - The keys to change, or a function returning them from the current state.
+   */
+  public setState(update: StoreUpdate<TState>): void {
+    const changes = typeof update === 'function' ? update(this.state) : update;
+    this.replaceState({ ...this.state, ...changes });
+  }
+
+  /**
+   * Puts the state back to the initial state and notifies every listener.
+   */
+  public reset(): void {
+    this.replaceState({ ...this.initialState });
+  }
+
+  /**
+   * Subscribes to every state change.
+   * @param listener - Called with the new and the previous state after each setState.
+   * @returns A disposer that removes the listener.
+   */
+  public subscribe(listener: StoreListener<TState>): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribes to changes of one selected value. The listener only runs when
+   * the selected value is no longer equal to the one it last saw.
+   * @param selector - Picks the value from the state.
+   * @param listener - Called with the new and the previous value.
+   * @param equals - Compares selected values (default: Object.is).
+   * @returns A disposer that removes the listener.
+   */
+  public watch<TSelected>(
+    selector: (state: Readonly<TState>) => TSelected,
+    listener: StoreSelectionListener<TSelected>,
+    equals: (a: TSelected, b: TSelected) => boolean = Object.is
+  ): () => void {
+    let current = selector(this.state);
+    return this.subscribe(state => {
+      const next = selector(state);
+      if (equals(next, current)) return;
+
+      const previous = current;
+      current = next;
+      listener(next, previous);
+    });
+  }
+
+  private replaceState(state: TState): void {
+    const previousState = this.state;
+    this.state = state;
+
+    // Copy so listeners can unsubscribe while the change is being dispatched
+    for (const listener of Array.from(this.listeners)) {
+      try {
+        listener(this.state, previousState);
+      } catch (error) {
+        console.error('Error in store listener:', error);
+      }
+    }
+  }
+}
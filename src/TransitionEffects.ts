@@ -0,0 +1,201 @@
+import {
+  DirectionalEffectOptions,
+  EffectDirection,
+  EffectOptions,
+  FadeThroughColorOptions,
+  SceneVisualState,
+  TransitionDirection,
+  TransitionEffect,
+  ZoomEffectOptions
+} from './types';
+
+/**
+ * The visual state of a scene that is drawn normally.
+ * @returns A new identity state.
+ */
+export function identityVisualState(): SceneVisualState {
+  return {
+    alpha: 1,
+    offsetX: 0,
+    offsetY: 0,
+    scale: 1,
+    clip: { top: 0, right: 0, bottom: 0, left: 0 },
+    overlayColor: null,
+    overlayAlpha: 0
+  };
+}
+
+/**
+ * Stacks two visual states: alpha and scale multiply, offsets add, the larger
+ * clip inset wins per edge and the stronger overlay wins.
+ */
+function combineVisualStates(a: SceneVisualState, b: SceneVisualState): SceneVisualState {
+  const overlay = b.overlayAlpha > a.overlayAlpha ? b : a;
+  return {
+    alpha: a.alpha * b.alpha,
+    offsetX: a.offsetX + b.offsetX,
+    offsetY: a.offsetY + b.offsetY,
+    scale: a.scale * b.scale,
+    clip: {
+      top: Math.max(a.clip.top, b.clip.top),
+      right: Math.max(a.clip.right, b.clip.right),
+      bottom: Math.max(a.clip.bottom, b.clip.bottom),
+      left: Math.max(a.clip.left, b.clip.left)
+    },
+    overlayColor: overlay.overlayColor,
+    overlayAlpha: overlay.overlayAlpha
+  };
+}
+
+function createEffect(
+  name: string,
+  options: EffectOptions,
+  render: (progress: number, direction: TransitionDirection) => Partial<SceneVisualState>
+): TransitionEffect {
+  const easing = options.easing ?? ((t: number) => t);
+  return {
+    name,
+    render: (progress, direction) => ({ ...identityVisualState(), ...render(easing(progress), direction) })
+  };
+}
+
+/**
+ * Unit vector of an effect direction, in viewport fractions with y pointing down.
+ */
+function directionVector(direction: EffectDirection): [number, number] {
+  switch (direction) {
+    case 'left': return [-1, 0];
+    case 'right': return [1, 0];
+    case 'up': return [0, -1];
+    case 'down': return [0, 1];
+  }
+}
+
+/**
+ * Cross-fades the scenes: the outgoing one fades out while the incoming one fades in.
+ */
+function fade(options: EffectOptions = {}): TransitionEffect {
+  return createEffect('fade', options, (progress, direction) => ({
+    alpha: direction === 'in' ? progress : 1 - progress
+  }));
+}
+
+/**
+ * Moves both scenes across the viewport in the given direction (default: 'left'):
+ * the outgoing scene leaves on one side while the incoming one arrives from the other.
+ */
+function slide(options: DirectionalEffectOptions = {}): TransitionEffect {
+  const [x, y] = directionVector(options.direction ?? 'left');
+  return createEffect('slide', options, (progress, direction) => {
+    const distance = direction === 'in' ? progress - 1 : progress;
+    // || 0 keeps the unused axis at 0 rather than -0
+    return { offsetX: x * distance || 0, offsetY: y * distance || 0 };
+  });
+}
+
+/**
+ * Sweeps an edge across the viewport in the given direction (default: 'right'),
+ * revealing the incoming scene behind it and clipping away the outgoing one.
+ */
+function wipe(options: DirectionalEffectOptions = {}): TransitionEffect {
+  const wipeDirection = options.direction ?? 'right';
+  // The edge the wipe starts from, and the one opposite it
+  const leadingEdge = ({ right: 'left', left: 'right', down: 'top', up: 'bottom' } as const)[wipeDirection];
+  const trailingEdge = ({ right: 'right', left: 'left', down: 'bottom', up: 'top' } as const)[wipeDirection];
+
+  return createEffect('wipe', options, (progress, direction) => {
+    const clip = identityVisualState().clip;
+    if (direction === 'in') {
+      clip[trailingEdge] = 1 - progress;
+    } else {
+      clip[leadingEdge] = progress;
+    }
+    return { clip };
+  });
+}
+
+/**
+ * Zooms and fades: the outgoing scene grows to scaleOut (default: 1.5) while it
+ * fades out, and the incoming one grows from scaleIn (default: 0.5) while it fades in.
+ */
+function zoom(options: ZoomEffectOptions = {}): TransitionEffect {
+  const scaleIn = options.scaleIn ?? 0.5;
+  const scaleOut = options.scaleOut ?? 1.5;
+  return createEffect('zoom', options, (progress, direction) => (direction === 'in'
+    ? { alpha: progress, scale: scaleIn + (1 - scaleIn) * progress }
+    : { alpha: 1 - progress, scale: 1 + (scaleOut - 1) * progress }));
+}
+
+/**
+ * Fades the outgoing scene into a solid color (default: '#000') during the first
+ * half, then fades the color away to reveal the incoming scene.
+ */
+function fadeThroughColor(options: FadeThroughColorOptions = {}): TransitionEffect {
+  const color = options.color ?? '#000';
+  return createEffect('fadeThroughColor', options, (progress, direction) => {
+    const firstHalf = progress < 0.5;
+    if (direction === 'out') {
+      return { alpha: firstHalf ? 1 : 0, overlayColor: color, overlayAlpha: Math.min(progress * 2, 1) };
+    }
+    return { alpha: firstHalf ? 0 : 1, overlayColor: color, overlayAlpha: Math.min((1 - progress) * 2, 1) };
+  });
+}
+
+/**
+ * Applies an effect to one side of the transition only; the other scene is drawn normally.
+ * @param direction - 'out' for the outgoing scene, 'in' for the incoming one.
+ * @param effect - The effect to apply.
+ */
+function only(direction: TransitionDirection, effect: TransitionEffect): TransitionEffect {
+  return {
+    name: `${effect.name}:${direction}`,
+    render: (progress, renderDirection) => (renderDirection === direction
+      ? effect.render(progress, renderDirection)
+      : identityVisualState())
+  };
+}
+
+/**
+ * Runs effects one after another, each over an equal share of the transition.
+ * Effects that have not started yet hold their start state and finished ones
+ * hold their end state, and all of them are combined.
+ * @example sequence(only('out', fade()), only('in', slide())) fades out, then slides in.
+ */
+function sequence(...effects: TransitionEffect[]): TransitionEffect {
+  return {
+    name: `sequence(${effects.map(effect => effect.name).join(', ')})`,
+    render: (progress, direction) => effects.reduce((state, effect, index) => {
+      const localProgress = Math.min(Math.max(progress * effects.length - index, 0), 1);
+      return combineVisualStates(state, effect.render(localProgress, direction));
+    }, identityVisualState())
+  };
+}
+
+/**
+ * Runs effects at the same time and combines them.
+ * @example parallel(fade(), zoom()) fades and zooms together.
+ */
+function parallel(...effects: TransitionEffect[]): TransitionEffect {
+  return {
+    name: `parallel(${effects.map(effect => effect.name).join(', ')})`,
+    render: (progress, direction) => effects.reduce(
+      (state, effect) => combineVisualStates(state, effect.render(progress, direction)),
+      identityVisualState()
+    )
+  };
+}
+
+/**
+ * Transition effect presets and combinators. Pass an effect in the transition
+ * options; scenes then receive its visual state in onTransitionUpdate.
+ */
+export const TransitionEffects = {
+  fade,
+  slide,
+  wipe,
+  zoom,
+  fadeThroughColor,
+  only,
+  sequence,
+  parallel
+};
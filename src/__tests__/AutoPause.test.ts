@@ -0,0 +1,140 @@
+import { SceneManager } from '../SceneManager';
+import { KolownScene } from '../Scene';
+import { ManualScheduler } from '../Scheduler';
+import { ManualPageEnvironment } from '../PageEnvironment';
+import { flushPromises } from './helpers';
+
+class RecordingScene extends KolownScene {
+  public calls: string[] = [];
+  public updates: number[] = [];
+
+  onPause(): void {
+    this.calls.push('pause');
+  }
+
+  onResume(): void {
+    this.calls.push('resume');
+  }
+
+  onUpdate(deltaTime: number): void {
+    this.updates.push(deltaTime);
+  }
+}
+
+describe('Auto pause', () => {
+  let scheduler: ManualScheduler;
+  let page: ManualPageEnvironment;
+  let sceneManager: SceneManager;
+  let game: RecordingScene;
+  let hud: RecordingScene;
+
+  const createManager = async (autoPause: boolean | { onHidden?: boolean; onBlur?: boolean }) => {
+    sceneManager = new SceneManager({ scheduler, pageEnvironment: page, autoPause, enableTransitions: false });
+    game = new RecordingScene('game');
+    hud = new RecordingScene('hud');
+    sceneManager.addScene(game);
+    sceneManager.addScene(hud);
+    sceneManager.addLayer('ui', 1);
+    await sceneManager.switchTo('game');
+    await sceneManager.switchLayerTo('ui', 'hud');
+  };
+
+  beforeEach(() => {
+    scheduler = new ManualScheduler();
+    page = new ManualPageEnvironment();
+  });
+
+  afterEach(async () => {
+    await sceneManager.destroy();
+  });
+
+  test('should pause shown scenes while the page is hidden and resume them when shown', async () => {
+    await createManager(true);
+
+    page.setHidden(true);
+    expect(sceneManager.isAutoPaused()).toBe(true);
+    expect(game.state).toBe('paused');
+    expect(hud.state).toBe('paused');
+
+    page.setHidden(false);
+    expect(sceneManager.isAutoPaused()).toBe(false);
+    expect(game.calls).toEqual(['pause', 'resume']);
+    expect(hud.calls).toEqual(['pause', 'resume']);
+    expect(game.isActive()).toBe(true);
+  });
+
+  test('should leave scenes paused on purpose alone', async () => {
+    await createManager(true);
+    sceneManager.pauseCurrentScene();
+
+    page.setHidden(true);
+    page.setHidden(false);
+
+    expect(game.state).toBe('paused');
+    expect(game.calls).toEqual(['pause']);
+    expect(hud.calls).toEqual(['pause', 'resume']);
+  });
+
+  test('should keep a scene paused on purpose while the page was hidden', async () => {
+    await createManager(true);
+
+    page.setHidden(true);
+    sceneManager.pauseCurrentScene();
+    page.setHidden(false);
+
+    expect(game.state).toBe('paused');
+    expect(game.calls).toEqual(['pause']);
+    expect(hud.state).toBe('active');
+  });
+
+  test('should not hand the hidden time to the first update after showing', async () => {
+    await createManager(true);
+    scheduler.runFrames(2, 16);
+
+    page.setHidden(true);
+    scheduler.advance(60000);
+    page.setHidden(false);
+    scheduler.runFrames(2, 16);
+
+    expect(game.updates).toEqual([16, 16, 16, 16]);
+  });
+
+  test('should only pause on blur when asked to', async () => {
+    await createManager(true);
+    page.setFocused(false);
+    expect(game.isActive()).toBe(true);
+    await sceneManager.destroy();
+
+    page = new ManualPageEnvironment();
+    await createManager({ onHidden: false, onBlur: true });
+    page.setHidden(true);
+    expect(game.isActive()).toBe(true);
+
+    page.setFocused(false);
+    expect(game.isPaused()).toBe(true);
+    page.setFocused(true);
+    expect(game.isActive()).toBe(true);
+  });
+
+  test('should pause a running transition and let it finish once shown', async () => {
+    sceneManager = new SceneManager({ scheduler, pageEnvironment: page, autoPause: true, defaultTransitionDuration: 100 });
+    sceneManager.addScene(new KolownScene('menu'));
+    sceneManager.addScene(new KolownScene('level'));
+    const entered = sceneManager.switchTo('menu');
+    await flushPromises();
+    scheduler.runFrames(10, 20);
+    await entered;
+
+    const switched = sceneManager.switchTo('level');
+    await flushPromises();
+    scheduler.runFrames(2, 20);
+    page.setHidden(true);
+    scheduler.runFrames(10, 20);
+    expect(sceneManager.getActiveTransition()?.isPaused()).toBe(true);
+
+    page.setHidden(false);
+    scheduler.runFrames(10, 20);
+    await switched;
+    expect(sceneManager.getCurrentScene()?.name).toBe('level');
+  });
+});
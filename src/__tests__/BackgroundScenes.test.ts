@@ -0,0 +1,142 @@
+import { SceneManager } from '../SceneManager';
+import { KolownScene } from '../Scene';
+import { BackgroundScene } from '../BackgroundScene';
+import { ManualScheduler } from '../Scheduler';
+
+interface SyncCommands {
+  save: { slot: number };
+}
+
+interface SyncEvents {
+  saved: { slot: number; at: number };
+}
+
+class SyncService extends BackgroundScene<SyncCommands, SyncEvents> {
+  public updates: number[] = [];
+  public calls: string[] = [];
+
+  onEnter(): void {
+    this.calls.push('enter');
+    this.resources.add(this.channel.handle('save', ({ slot }) => {
+      this.channel.emit('saved', { slot, at: this.clock.now() });
+    }));
+  }
+
+  onExit(): void {
+    this.calls.push('exit');
+  }
+
+  onUpdate(deltaTime: number): void {
+    this.updates.push(deltaTime);
+  }
+}
+
+const setVisibility = (state: DocumentVisibilityState) => {
+  Object.defineProperty(document, 'visibilityState', { configurable: true, get: () => state });
+  document.dispatchEvent(new Event('visibilitychange'));
+};
+
+describe('Background scenes', () => {
+  let scheduler: ManualScheduler;
+  let sceneManager: SceneManager;
+  let sync: SyncService;
+
+  beforeEach(async () => {
+    scheduler = new ManualScheduler();
+    sceneManager = new SceneManager({ scheduler, enableTransitions: false });
+    sync = new SyncService('sync');
+    sync.tickRate = 10;
+    sceneManager.addScene(sync);
+    sceneManager.addScene(new KolownScene('menu'));
+    sceneManager.addScene(new KolownScene('game'));
+    await sceneManager.switchTo('menu');
+  });
+
+  afterEach(async () => {
+    await sceneManager.destroy();
+    setVisibility('visible');
+  });
+
+  test('should keep ticking at its own rate across foreground switches', async () => {
+    await sceneManager.startBackgroundScene('sync');
+    expect(sync.state).toBe('active');
+    expect(sceneManager.getBackgroundScenes()).toEqual(['sync']);
+
+    scheduler.runFrames(12, 25);
+    await sceneManager.switchTo('game');
+    scheduler.runFrames(8, 25);
+
+    expect(sync.updates).toEqual([100, 100, 100, 100, 100]);
+    expect(sync.calls).toEqual(['enter']);
+    expect(sceneManager.getCurrentScene()?.name).toBe('game');
+  });
+
+  test('should throttle while the page is hidden and suspend at a hidden rate of 0', async () => {
+    sync.hiddenTickRate = 2;
+    await sceneManager.startBackgroundScene('sync');
+
+    setVisibility('hidden');
+    scheduler.advance(2000);
+    expect(sync.updates).toEqual([500, 500, 500, 500]);
+
+    sync.hiddenTickRate = 0;
+    setVisibility('visible');
+    setVisibility('hidden');
+    scheduler.advance(5000);
+    setVisibility('visible');
+    scheduler.runFrames(4, 25);
+    expect(sync.updates).toEqual([500, 500, 500, 500, 100]);
+  });
+
+  test('should pass typed messages through the channel', async () => {
+    const channel = sceneManager.getChannel<SyncService>('sync');
+    const saved = jest.fn();
+    channel.on('saved', saved);
+
+    expect(channel.send('save', { slot: 1 })).toBe(false);
+    await sceneManager.startBackgroundScene('sync');
+    scheduler.advance(40);
+    expect(channel.send('save', { slot: 2 })).toBe(true);
+
+    expect(saved).toHaveBeenCalledTimes(1);
+    expect(saved).toHaveBeenCalledWith({ slot: 2, at: 40 });
+
+    await sceneManager.stopBackgroundScene('sync');
+    expect(channel.send('save', { slot: 3 })).toBe(false);
+    expect(sync.calls).toEqual(['enter', 'exit']);
+    expect(sync.state).toBe('inactive');
+    expect(sceneManager.getBackgroundScenes()).toEqual([]);
+  });
+
+  test('should keep background scenes off the stack and reject plain scenes', async () => {
+    await sceneManager.startBackgroundScene('sync');
+
+    await expect(sceneManager.switchTo('sync')).rejects.toThrow('Scene "sync" is running in the background');
+    await expect(sceneManager.startBackgroundScene('game')).rejects.toThrow('Scene "game" is not a BackgroundScene');
+    expect(() => sceneManager.getChannel('game')).toThrow('Scene "game" is not a BackgroundScene');
+  });
+
+  test('should keep running after a save and restore', async () => {
+    await sceneManager.startBackgroundScene('sync');
+    const graph = JSON.parse(JSON.stringify(sceneManager.serialize()));
+    expect(graph.background).toEqual(['sync']);
+
+    await sceneManager.deserialize(graph);
+    scheduler.runFrames(4, 25);
+
+    expect(sync.state).toBe('active');
+    expect(sceneManager.getBackgroundScenes()).toEqual(['sync']);
+    expect(sync.calls).toEqual(['enter', 'exit', 'enter']);
+    expect(sync.updates).toEqual([100]);
+  });
+
+  test('should stop background scenes on destroy', async () => {
+    await sceneManager.startBackgroundScene('sync');
+
+    await sceneManager.destroy();
+    scheduler.runFrames(10, 25);
+
+    expect(sync.calls).toEqual(['enter', 'exit']);
+    expect(sync.updates).toEqual([]);
+  });
+});
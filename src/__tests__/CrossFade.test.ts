@@ -0,0 +1,102 @@
+import { SceneManager } from '../SceneManager';
+import { KolownScene } from '../Scene';
+import { TransitionDirection } from '../types';
+import { flushPromises } from './helpers';
+
+class FadingScene extends KolownScene {
+  public progressLog: Array<[number, TransitionDirection]> = [];
+  public updateCount = 0;
+
+  onUpdate(): void {
+    this.updateCount++;
+  }
+
+  onTransitionUpdate(progress: number, direction: TransitionDirection): void {
+    this.progressLog.push([progress, direction]);
+  }
+}
+
+describe('SceneManager cross-fade transitions', () => {
+  const originalNow = Date.now;
+  let mockTime: number;
+  let sceneManager: SceneManager;
+  let menu: FadingScene;
+  let game: FadingScene;
+
+  beforeEach(async () => {
+    mockTime = 1000;
+    Date.now = jest.fn(() => mockTime);
+
+    sceneManager = new SceneManager({ autoUpdate: false, defaultTransitionDuration: 100 });
+    menu = new FadingScene('menu');
+    game = new FadingScene('game');
+    sceneManager.addScene(menu);
+    sceneManager.addScene(game);
+
+    const entered = sceneManager.switchTo('menu');
+    await flushPromises();
+    mockTime += 100;
+    sceneManager.update(16);
+    await entered;
+    menu.progressLog = [];
+    menu.updateCount = 0;
+  });
+
+  afterEach(() => {
+    Date.now = originalNow;
+  });
+
+  test('should pass progress to both scenes every frame', async () => {
+    const switched = sceneManager.switchTo('game');
+    await flushPromises();
+
+    mockTime += 50;
+    sceneManager.update(16);
+    expect(menu.progressLog).toEqual([[0.5, 'out']]);
+    expect(game.progressLog).toEqual([[0.5, 'in']]);
+
+    mockTime += 50;
+    sceneManager.update(16);
+    await switched;
+
+    expect(menu.progressLog).toEqual([[0.5, 'out'], [1, 'out']]);
+    expect(game.progressLog).toEqual([[0.5, 'in'], [1, 'in']]);
+  });
+
+  test('should keep updating both scenes until the transition completes', async () => {
+    const switched = sceneManager.switchTo('game');
+    await flushPromises();
+
+    mockTime += 50;
+    sceneManager.update(16);
+    expect(menu.state).toBe('exiting');
+    expect(game.state).toBe('entering');
+    expect(menu.updateCount).toBe(1);
+    expect(game.updateCount).toBe(1);
+
+    mockTime += 50;
+    sceneManager.update(16);
+    await switched;
+
+    expect(menu.state).toBe('inactive');
+    expect(game.state).toBe('active');
+    expect(menu.updateCount).toBe(1);
+    expect(game.updateCount).toBe(2);
+
+    sceneManager.update(16);
+    expect(menu.updateCount).toBe(1);
+    expect(menu.progressLog).toHaveLength(2);
+  });
+
+  test('should still call the caller onComplete', async () => {
+    const onComplete = jest.fn();
+    const switched = sceneManager.switchTo('game', undefined, { onComplete });
+    await flushPromises();
+
+    mockTime += 100;
+    sceneManager.update(16);
+    await switched;
+
+    expect(onComplete).toHaveBeenCalledTimes(1);
+  });
+});
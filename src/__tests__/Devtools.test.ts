@@ -0,0 +1,208 @@
+import { SceneManager } from '../SceneManager';
+import { KolownScene } from '../Scene';
+import { ManualScheduler } from '../Scheduler';
+import { SceneInspector } from '../SceneInspector';
+import { InspectorOverlay } from '../InspectorOverlay';
+import { DEVTOOLS_BRIDGE_KEY, installDevtoolsBridge } from '../DevtoolsBridge';
+import { DevtoolsBridge } from '../types';
+import { flushPromises } from './helpers';
+
+class CountingScene extends KolownScene {
+  public updates = 0;
+
+  onUpdate(): void {
+    this.updates++;
+  }
+}
+
+describe('SceneInspector', () => {
+  let scheduler: ManualScheduler;
+  let sceneManager: SceneManager;
+  let inspector: SceneInspector;
+
+  beforeEach(async () => {
+    scheduler = new ManualScheduler(1000);
+    sceneManager = new SceneManager({ scheduler, autoUpdate: false, enableTransitions: false });
+    inspector = new SceneInspector(sceneManager, { clock: scheduler, maxEvents: 5 });
+    sceneManager.addScene(new CountingScene('menu'));
+    sceneManager.addScene(new CountingScene('game'));
+    sceneManager.addScene(new CountingScene('hud'));
+    sceneManager.addLayer('ui', 1);
+  });
+
+  afterEach(() => {
+    inspector.dispose();
+  });
+
+  test('should show every scene with its state, data and place', async () => {
+    await sceneManager.switchTo('game');
+    await sceneManager.switchLayerTo('ui', 'hud');
+    sceneManager.getScene('game')?.setData('score', 42);
+
+    const snapshot = inspector.getSnapshot();
+
+    expect(snapshot.scenes).toEqual([
+      { name: 'menu', state: 'inactive', data: {}, current: false, layer: null, background: false },
+      { name: 'game', state: 'active', data: { score: 42 }, current: true, layer: 'main', background: false },
+      { name: 'hud', state: 'active', data: {}, current: false, layer: 'ui', background: false }
+    ]);
+    expect(snapshot.stack).toEqual(['game']);
+    expect(snapshot.transition).toBeNull();
+    expect(snapshot.performance).toBeNull();
+  });
+
+  test('should keep the most recent events with a summary', async () => {
+    const changed = jest.fn();
+    inspector.subscribe(changed);
+
+    await sceneManager.switchTo('menu');
+    scheduler.advance(5);
+    await sceneManager.switchTo('game');
+
+    expect(inspector.getEvents().map(event => event.summary)).toEqual([
+      'menu: active -> exiting',
+      'menu: exiting -> inactive',
+      'game: inactive -> entering',
+      'game: entering -> active',
+      'push to game'
+    ]);
+    expect(inspector.getEvents()[0]).toMatchObject({ type: 'stateChanged', time: 1005 });
+    expect(changed).toHaveBeenCalled();
+
+    inspector.clearEvents();
+    expect(inspector.getSnapshot().events).toEqual([]);
+  });
+
+  test('should report the running transition\'s progress', async () => {
+    const transitionManager = new SceneManager({ scheduler, defaultTransitionDuration: 100 });
+    const transitionInspector = new SceneInspector(transitionManager);
+    transitionManager.addScene(new KolownScene('menu'));
+    transitionManager.addScene(new KolownScene('game'));
+    await transitionManager.switchTo('menu');
+
+    const switched = transitionManager.switchTo('game');
+    await flushPromises();
+    scheduler.runFrames(2, 25);
+
+    expect(transitionInspector.getSnapshot().transition).toEqual({
+      from: 'menu',
+      to: 'game',
+      progress: 0.5,
+      paused: false,
+      reversed: false
+    });
+
+    scheduler.runFrames(4, 25);
+    await switched;
+    transitionInspector.dispose();
+    await transitionManager.destroy();
+  });
+
+  test('should drive the manager', async () => {
+    await inspector.switchTo('game');
+    const game = sceneManager.getScene('game') as CountingScene;
+
+    inspector.pause();
+    expect(inspector.getSnapshot().paused).toBe(true);
+    sceneManager.update(16);
+    inspector.step(3);
+    expect(game.updates).toBe(3);
+
+    inspector.resume();
+    expect(inspector.getSnapshot().paused).toBe(false);
+  });
+});
+
+describe('InspectorOverlay', () => {
+  let sceneManager: SceneManager;
+  let inspector: SceneInspector;
+  let overlay: InspectorOverlay;
+  let container: HTMLElement;
+
+  const button = (action: string) =>
+    container.querySelector(`[data-action="${action}"]`) as HTMLButtonElement;
+
+  beforeEach(async () => {
+    sceneManager = new SceneManager({ autoUpdate: false, enableTransitions: false });
+    inspector = new SceneInspector(sceneManager);
+    sceneManager.addScene(new KolownScene('menu'));
+    sceneManager.addScene(new KolownScene('game'));
+    await sceneManager.switchTo('menu');
+
+    container = document.createElement('div');
+    overlay = new InspectorOverlay(inspector, { container, refreshInterval: 0 });
+    overlay.mount();
+  });
+
+  afterEach(() => {
+    overlay.unmount();
+    inspector.dispose();
+  });
+
+  test('should list the scenes and their state', () => {
+    const text = container.textContent ?? '';
+
+    expect(text).toContain('stack: menu');
+    expect(text).toContain('menu [active] (current) {}');
+    expect(text).toContain('game [inactive] {}');
+    expect(Array.from(container.querySelectorAll('option')).map(option => option.value)).toEqual(['menu', 'game']);
+  });
+
+  test('should switch, pause and step from the panel', async () => {
+    const select = container.querySelector('select') as HTMLSelectElement;
+    select.value = 'game';
+    button('switch').click();
+    await flushPromises();
+    expect(sceneManager.getCurrentScene()?.name).toBe('game');
+    expect(container.textContent).toContain('game [active] (current)');
+
+    button('pause').click();
+    expect(sceneManager.isPaused()).toBe(true);
+    expect(button('pause').textContent).toBe('Resume');
+
+    button('pause').click();
+    expect(sceneManager.isPaused()).toBe(false);
+  });
+
+  test('should remove the panel on unmount', () => {
+    expect(container.children).toHaveLength(1);
+
+    overlay.unmount();
+
+    expect(container.children).toHaveLength(0);
+    expect(overlay.isMounted()).toBe(false);
+  });
+});
+
+describe('Devtools bridge', () => {
+  test('should expose the manager on a global and remove it again', async () => {
+    const sceneManager = new SceneManager({ autoUpdate: false, enableTransitions: false });
+    sceneManager.addScene(new KolownScene('menu'));
+    const target: Record<string, unknown> = {};
+
+    const uninstall = installDevtoolsBridge(sceneManager, { target });
+    const bridge = target[DEVTOOLS_BRIDGE_KEY] as DevtoolsBridge;
+    expect(bridge.version).toBe(1);
+    expect(bridge.manager).toBe(sceneManager);
+
+    await bridge.switchTo('menu');
+    expect(bridge.getSnapshot().stack).toEqual(['menu']);
+    expect(bridge.inspector.getEvents().length).toBeGreaterThan(0);
+
+    uninstall();
+    expect(target[DEVTOOLS_BRIDGE_KEY]).toBeUndefined();
+    bridge.inspector.clearEvents();
+    sceneManager.addScene(new KolownScene('game'));
+    expect(bridge.inspector.getEvents()).toEqual([]);
+  });
+
+  test('should install on globalThis by default', () => {
+    const sceneManager = new SceneManager({ autoUpdate: false });
+
+    const uninstall = installDevtoolsBridge(sceneManager, { key: '__TEST_SCENE_MANAGER__' });
+
+    expect((globalThis as Record<string, unknown>).__TEST_SCENE_MANAGER__).toBeDefined();
+    uninstall();
+    expect((globalThis as Record<string, unknown>).__TEST_SCENE_MANAGER__).toBeUndefined();
+  });
+});
@@ -0,0 +1,107 @@
+import { SceneManager } from '../SceneManager';
+import { KolownScene } from '../Scene';
+import { ManualScheduler } from '../Scheduler';
+
+class PhysicsScene extends KolownScene {
+  public fixedSteps: number[] = [];
+  public deltas: number[] = [];
+  public alphas: number[] = [];
+
+  onFixedUpdate(step: number): void {
+    this.fixedSteps.push(step);
+  }
+
+  onUpdate(deltaTime: number): void {
+    this.deltas.push(deltaTime);
+  }
+
+  onRender(alpha: number): void {
+    this.alphas.push(alpha);
+  }
+}
+
+describe('SceneManager timestep', () => {
+  let scene: PhysicsScene;
+
+  beforeEach(() => {
+    scene = new PhysicsScene('physics');
+  });
+
+  test('should run fixed steps from an accumulator and pass the interpolation alpha', async () => {
+    const sceneManager = new SceneManager({ autoUpdate: false, enableTransitions: false, fixedTimestep: 10 });
+    sceneManager.addScene(scene);
+    await sceneManager.switchTo('physics');
+
+    sceneManager.update(25);
+    expect(scene.fixedSteps).toEqual([10, 10]);
+    expect(scene.alphas).toEqual([0.5]);
+
+    sceneManager.update(7);
+    expect(scene.fixedSteps).toEqual([10, 10, 10]);
+    expect(scene.alphas[1]).toBeCloseTo(0.2);
+    expect(scene.deltas).toEqual([25, 7]);
+  });
+
+  test('should cap catch-up steps and drop the time they cannot cover', async () => {
+    const sceneManager = new SceneManager({
+      autoUpdate: false,
+      enableTransitions: false,
+      fixedTimestep: 10,
+      maxFixedSteps: 3
+    });
+    sceneManager.addScene(scene);
+    await sceneManager.switchTo('physics');
+
+    sceneManager.update(1004);
+    expect(scene.fixedSteps).toHaveLength(3);
+    expect(scene.alphas[0]).toBeCloseTo(0.4);
+
+    sceneManager.update(6);
+    expect(scene.fixedSteps).toHaveLength(4);
+  });
+
+  test('should keep the variable timestep by default', async () => {
+    const sceneManager = new SceneManager({ autoUpdate: false, enableTransitions: false });
+    sceneManager.addScene(scene);
+    await sceneManager.switchTo('physics');
+
+    sceneManager.update(25);
+
+    expect(scene.fixedSteps).toEqual([]);
+    expect(scene.deltas).toEqual([25]);
+    expect(scene.alphas).toEqual([1]);
+  });
+
+  test('should measure the first frame from zero elapsed time', async () => {
+    const originalNow = Date.now;
+    let mockTime = 5000;
+    Date.now = jest.fn(() => mockTime);
+
+    try {
+      const sceneManager = new SceneManager({ autoUpdate: false, enableTransitions: false });
+      sceneManager.addScene(scene);
+      await sceneManager.switchTo('physics');
+
+      sceneManager.update();
+      mockTime += 16;
+      sceneManager.update();
+    } finally {
+      Date.now = originalNow;
+    }
+
+    expect(scene.deltas).toEqual([0, 16]);
+  });
+
+  test('should give the loop\'s first frame its full time on a clock that starts at 0', async () => {
+    const scheduler = new ManualScheduler();
+    const sceneManager = new SceneManager({ scheduler, enableTransitions: false, fixedTimestep: 10 });
+    sceneManager.addScene(scene);
+    await sceneManager.switchTo('physics');
+
+    scheduler.runFrames(3, 10);
+
+    expect(scene.deltas).toEqual([10, 10, 10]);
+    expect(scene.fixedSteps).toEqual([10, 10, 10]);
+    await sceneManager.destroy();
+  });
+});
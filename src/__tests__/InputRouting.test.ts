@@ -0,0 +1,124 @@
+import { SceneManager } from '../SceneManager';
+import { KolownScene } from '../Scene';
+import { SceneInputEvent } from '../types';
+import { ManualScheduler } from '../Scheduler';
+import { flushPromises } from './helpers';
+
+class InputScene extends KolownScene {
+  public received: string[] = [];
+  public consumes: string[] = [];
+
+  onInput(event: SceneInputEvent): boolean {
+    this.received.push([event.input, ...event.actions].join(':'));
+    return event.actions.some(action => this.consumes.includes(action));
+  }
+}
+
+describe('Input routing', () => {
+  let sceneManager: SceneManager;
+  let game: InputScene;
+  let pause: InputScene;
+  let hud: InputScene;
+
+  beforeEach(async () => {
+    sceneManager = new SceneManager({
+      autoUpdate: false,
+      enableTransitions: false,
+      inputActions: { jump: ['Space', 'KeyW'], menu: ['Escape'] }
+    });
+    game = new InputScene('game');
+    pause = new InputScene('pause');
+    hud = new InputScene('hud');
+    [game, pause, hud].forEach(scene => sceneManager.addScene(scene));
+    sceneManager.addLayer('ui', 1);
+    await sceneManager.switchTo('game');
+  });
+
+  test('should tag inputs with their bound actions', () => {
+    const input = sceneManager.getInput();
+    input.bindAction('jump', 'Pointer0');
+    input.unbindAction('jump', 'KeyW');
+
+    expect(input.dispatch({ type: 'keydown', input: 'Space' })).toBe(false);
+    input.dispatch({ type: 'keydown', input: 'KeyW' });
+    input.dispatch({ type: 'pointerdown', input: 'Pointer0' });
+
+    expect(game.received).toEqual(['Space:jump', 'KeyW', 'Pointer0:jump']);
+    expect(input.getActionMap()).toEqual({ jump: ['Space', 'Pointer0'], menu: ['Escape'] });
+  });
+
+  test('should deliver to the top scene first and bubble until consumed', async () => {
+    await sceneManager.switchLayerTo('ui', 'hud');
+    hud.consumes = ['menu'];
+    game.consumes = ['jump'];
+
+    expect(sceneManager.getFocusedScene()).toBe(hud);
+    expect(sceneManager.getInput().dispatch({ type: 'keydown', input: 'Escape' })).toBe(true);
+    expect(sceneManager.getInput().dispatch({ type: 'keydown', input: 'Space' })).toBe(true);
+    expect(sceneManager.getInput().dispatch({ type: 'keydown', input: 'KeyQ' })).toBe(false);
+
+    expect(hud.received).toEqual(['Escape:menu', 'Space:jump', 'KeyQ']);
+    expect(game.received).toEqual(['Space:jump', 'KeyQ']);
+  });
+
+  test('should block paused scenes under an overlay', async () => {
+    await sceneManager.pushScene('pause');
+
+    sceneManager.getInput().dispatch({ type: 'keydown', input: 'Space' });
+
+    expect(pause.received).toEqual(['Space:jump']);
+    expect(game.received).toEqual([]);
+  });
+
+  test('should send input to the focused scene first until it exits', async () => {
+    await sceneManager.switchLayerTo('ui', 'hud');
+    sceneManager.focusScene('game');
+    game.consumes = ['jump'];
+
+    sceneManager.getInput().dispatch({ type: 'keydown', input: 'Space' });
+    expect(game.received).toEqual(['Space:jump']);
+    expect(hud.received).toEqual([]);
+
+    await sceneManager.switchTo('pause');
+    await sceneManager.switchTo('game');
+    expect(sceneManager.getFocusedScene()).toBe(hud);
+    expect(() => sceneManager.focusScene('missing')).toThrow('Scene "missing" not found');
+  });
+
+  test('should block scenes while they transition', async () => {
+    const scheduler = new ManualScheduler();
+    const transitionManager = new SceneManager({ scheduler, defaultTransitionDuration: 100 });
+    const menu = new InputScene('menu');
+    const level = new InputScene('level');
+    transitionManager.addScene(menu);
+    transitionManager.addScene(level);
+    const entered = transitionManager.switchTo('menu');
+    await flushPromises();
+    scheduler.runFrames(10, 20);
+    await entered;
+
+    const switching = transitionManager.switchTo('level');
+    await flushPromises();
+    transitionManager.getInput().dispatch({ type: 'keydown', input: 'Space' });
+    scheduler.runFrames(10, 20);
+    await switching;
+    transitionManager.getInput().dispatch({ type: 'keydown', input: 'Enter' });
+
+    expect(menu.received).toEqual([]);
+    expect(level.received).toEqual(['Enter']);
+    await transitionManager.destroy();
+  });
+
+  test('should dispatch DOM events from attached targets until detached', async () => {
+    const target = new EventTarget();
+    const detach = sceneManager.getInput().attach(target);
+
+    target.dispatchEvent(Object.assign(new Event('keydown'), { code: 'Escape' }));
+    target.dispatchEvent(Object.assign(new Event('pointerdown'), { button: 0, clientX: 4, clientY: 8 }));
+    detach();
+    target.dispatchEvent(Object.assign(new Event('keydown'), { code: 'Space' }));
+
+    expect(game.received).toEqual(['Escape:menu', 'Pointer0']);
+    await sceneManager.destroy();
+  });
+});
@@ -0,0 +1,116 @@
+import { SceneManager } from '../SceneManager';
+import { SceneRegistry } from '../SceneRegistry';
+import { KolownScene } from '../Scene';
+
+class LevelScene extends KolownScene {}
+
+describe('SceneRegistry factories', () => {
+  let registry: SceneRegistry;
+
+  beforeEach(() => {
+    registry = new SceneRegistry();
+  });
+
+  test('should build scenes from instances, classes and modules', async () => {
+    registry.registerFactory('instance', name => new LevelScene(name));
+    registry.registerFactory('class', () => LevelScene);
+    registry.registerFactory('module', async () => ({ default: LevelScene }));
+
+    const scenes = await Promise.all(['instance', 'class', 'module'].map(name => registry.createFromFactory(name)));
+
+    scenes.forEach(scene => expect(scene).toBeInstanceOf(LevelScene));
+    expect(scenes.map(scene => scene.name)).toEqual(['instance', 'class', 'module']);
+    expect(registry.getFactoryNames()).toEqual(['instance', 'class', 'module']);
+  });
+
+  test('should reject factories that build the wrong scene', async () => {
+    registry.registerFactory('level', () => new LevelScene('other'));
+
+    await expect(registry.createFromFactory('level'))
+      .rejects.toThrow('Factory for scene "level" produced a scene named "other".');
+    await expect(registry.createFromFactory('missing'))
+      .rejects.toThrow('No factory is registered for scene "missing".');
+  });
+});
+
+describe('SceneManager lazy scenes', () => {
+  const originalNow = Date.now;
+  let mockTime: number;
+
+  beforeEach(() => {
+    mockTime = 1000;
+    Date.now = jest.fn(() => mockTime);
+  });
+
+  afterEach(() => {
+    Date.now = originalNow;
+  });
+
+  test('should build a lazy scene once on first use', async () => {
+    const sceneManager = new SceneManager({ autoUpdate: false, enableTransitions: false });
+    const factory = jest.fn(async () => ({ default: LevelScene }));
+    sceneManager.registerLazyScene('level', factory);
+    sceneManager.addScene(new KolownScene('menu'));
+
+    expect(sceneManager.hasScene('level')).toBe(false);
+    await sceneManager.switchTo('level');
+    await sceneManager.switchTo('menu');
+    await sceneManager.pushScene('level');
+
+    expect(factory).toHaveBeenCalledTimes(1);
+    expect(sceneManager.getCurrentScene()).toBeInstanceOf(LevelScene);
+  });
+
+  test('should still reject unknown scene names', async () => {
+    const sceneManager = new SceneManager({ autoUpdate: false });
+
+    await expect(sceneManager.switchTo('missing')).rejects.toThrow('Scene "missing" not found');
+  });
+
+  test('should dispose the least recently used scenes over maxInstances', async () => {
+    const sceneManager = new SceneManager({
+      autoUpdate: false,
+      enableTransitions: false,
+      disposePolicy: { maxInstances: 1 }
+    });
+    ['a', 'b', 'c'].forEach(name => sceneManager.registerLazyScene(name, () => LevelScene));
+
+    await sceneManager.switchTo('a');
+    mockTime += 10;
+    await sceneManager.pushScene('b');
+    expect(sceneManager.getScenes()).toEqual(['a', 'b']);
+
+    mockTime += 10;
+    await sceneManager.switchTo('c');
+    expect(sceneManager.getScenes()).toEqual(['a', 'c']);
+
+    await sceneManager.popScene();
+    expect(sceneManager.getScenes()).toEqual(['a']);
+  });
+
+  test('should dispose scenes unused for longer than keepAlive', async () => {
+    const sceneManager = new SceneManager({
+      autoUpdate: false,
+      enableTransitions: false,
+      disposePolicy: { keepAlive: 1000 }
+    });
+    const eager = new KolownScene('eager');
+    sceneManager.addScene(eager);
+    sceneManager.registerLazyScene('level', () => LevelScene);
+
+    await sceneManager.switchTo('level');
+    await sceneManager.switchTo('eager');
+
+    mockTime += 999;
+    sceneManager.update(16);
+    expect(sceneManager.hasScene('level')).toBe(true);
+
+    mockTime += 1;
+    sceneManager.update(16);
+    expect(sceneManager.hasScene('level')).toBe(false);
+    expect(sceneManager.hasScene('eager')).toBe(true);
+
+    await sceneManager.switchTo('level');
+    expect(sceneManager.getCurrentScene()?.name).toBe('level');
+  });
+});
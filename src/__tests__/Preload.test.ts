@@ -0,0 +1,106 @@
+import { SceneManager } from '../SceneManager';
+import { KolownScene } from '../Scene';
+import { flushPromises } from './helpers';
+
+class AssetScene extends KolownScene {
+  public finishLoading!: () => void;
+  public reportProgress!: (progress: number) => void;
+  public lifecycleCalls: string[] = [];
+
+  preload(onProgress: (progress: number) => void): Promise<void> {
+    this.lifecycleCalls.push('preload');
+    this.reportProgress = onProgress;
+    return new Promise(resolve => {
+      this.finishLoading = resolve;
+    });
+  }
+
+  onEnter(): void {
+    this.lifecycleCalls.push('enter');
+  }
+}
+
+class LoadingScene extends KolownScene {
+  public progressLog: Array<[number, string]> = [];
+
+  onLoadProgress(progress: number, sceneName: string): void {
+    this.progressLog.push([progress, sceneName]);
+  }
+}
+
+describe('Scene preloading', () => {
+  test('should load a scene only once', async () => {
+    const scene = new KolownScene('plain');
+    const preload = jest.spyOn(scene, 'preload');
+
+    await Promise.all([scene.load(), scene.load()]);
+    await scene.load();
+
+    expect(preload).toHaveBeenCalledTimes(1);
+    expect(scene.isLoaded()).toBe(true);
+    expect(scene.loadProgress).toBe(1);
+  });
+
+  test('should enter the scene only after preload resolves', async () => {
+    const sceneManager = new SceneManager({ autoUpdate: false, enableTransitions: false });
+    const level = new AssetScene('level');
+    sceneManager.addScene(level);
+
+    const switched = sceneManager.switchTo('level');
+    await flushPromises();
+    expect(level.lifecycleCalls).toEqual(['preload']);
+
+    level.reportProgress(0.5);
+    expect(level.loadProgress).toBe(0.5);
+
+    level.finishLoading();
+    await switched;
+    expect(level.lifecycleCalls).toEqual(['preload', 'enter']);
+    expect(level.state).toBe('active');
+  });
+
+  test('should show the loading scene while a slow preload runs', async () => {
+    jest.useFakeTimers();
+    try {
+      const sceneManager = new SceneManager({
+        autoUpdate: false,
+        enableTransitions: false,
+        loadingScene: 'loading',
+        loadingSceneDelay: 100
+      });
+      const level = new AssetScene('level');
+      const loading = new LoadingScene('loading');
+      sceneManager.addScene(level);
+      sceneManager.addScene(loading);
+
+      const switched = sceneManager.switchTo('level');
+      await flushPromises();
+      level.reportProgress(0.25);
+      expect(sceneManager.getCurrentScene()).toBeNull();
+
+      jest.advanceTimersByTime(100);
+      await flushPromises();
+      expect(sceneManager.getCurrentScene()).toBe(loading);
+      expect(loading.progressLog).toEqual([[0.25, 'level']]);
+
+      level.reportProgress(0.75);
+      level.finishLoading();
+      await switched;
+
+      expect(loading.progressLog).toEqual([[0.25, 'level'], [0.75, 'level']]);
+      expect(loading.state).toBe('inactive');
+      expect(sceneManager.getCurrentScene()).toBe(level);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('should reject the switch when an async onEnter fails during a transition', async () => {
+    const sceneManager = new SceneManager({ autoUpdate: false });
+    const broken = new KolownScene('broken');
+    broken.onEnter = () => Promise.reject(new Error('Load failed'));
+    sceneManager.addScene(broken);
+
+    await expect(sceneManager.switchTo('broken', undefined, { duration: 10 })).rejects.toThrow('Load failed');
+  });
+});
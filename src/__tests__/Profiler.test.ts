@@ -0,0 +1,120 @@
+import { SceneManager } from '../SceneManager';
+import { KolownScene } from '../Scene';
+import { ManualScheduler } from '../Scheduler';
+import { flushPromises } from './helpers';
+
+class CostlyScene extends KolownScene {
+  constructor(name: string, private scheduler: ManualScheduler, public cost: number) {
+    super(name);
+  }
+
+  onEnter(): void {
+    this.scheduler.advance(2);
+  }
+
+  onUpdate(): void {
+    this.scheduler.advance(this.cost);
+  }
+}
+
+describe('Profiler', () => {
+  let scheduler: ManualScheduler;
+  let sceneManager: SceneManager;
+  let game: CostlyScene;
+
+  beforeEach(async () => {
+    scheduler = new ManualScheduler();
+    sceneManager = new SceneManager({
+      scheduler,
+      autoUpdate: false,
+      enableTransitions: false,
+      profiler: { frameBudget: 10, clock: scheduler }
+    });
+    game = new CostlyScene('game', scheduler, 4);
+    sceneManager.addScene(game);
+    sceneManager.addScene(new CostlyScene('hud', scheduler, 1));
+    sceneManager.addLayer('ui', 1);
+    await sceneManager.switchTo('game');
+    await sceneManager.switchLayerTo('ui', 'hud');
+  });
+
+  test('should time each scene\'s hooks and the frames', () => {
+    for (let i = 0; i < 4; i++) {
+      sceneManager.update(16);
+    }
+
+    const snapshot = sceneManager.getProfiler()?.getSnapshot();
+    expect(snapshot?.frames).toBe(4);
+    expect(snapshot?.fps).toBe(62.5);
+    expect(snapshot?.frameTime).toEqual({ average: 5, p50: 5, p95: 5, p99: 5, max: 5 });
+    expect(snapshot?.scenes.game.onUpdate).toEqual({ calls: 4, total: 16, average: 4, max: 4, last: 4 });
+    expect(snapshot?.scenes.hud.onUpdate?.total).toBe(4);
+    expect(snapshot?.scenes.game.onEnter).toEqual({ calls: 1, total: 2, average: 2, max: 2, last: 2 });
+  });
+
+  test('should report frames over budget with the time each scene used', () => {
+    const profiled = jest.fn();
+    const exceeded = jest.fn();
+    sceneManager.on('frameProfiled', profiled);
+    sceneManager.on('frameBudgetExceeded', exceeded);
+
+    sceneManager.update(16);
+    sceneManager.update(16);
+    game.cost = 12;
+    sceneManager.update(16);
+    game.cost = 4;
+    sceneManager.update(16);
+
+    expect(profiled).toHaveBeenCalledTimes(4);
+    expect(exceeded).toHaveBeenCalledTimes(1);
+    expect(exceeded).toHaveBeenCalledWith({ duration: 13, deltaTime: 16, budget: 10, scenes: { game: 12, hud: 1 } });
+
+    const snapshot = sceneManager.getProfiler()?.getSnapshot();
+    expect(snapshot?.budgetOverruns).toBe(1);
+    expect(snapshot?.frameTime).toEqual({ average: 7, p50: 5, p95: 13, p99: 13, max: 13 });
+  });
+
+  test('should record how long transitions took', async () => {
+    const transitionManager = new SceneManager({ scheduler, profiler: { clock: scheduler }, defaultTransitionDuration: 100 });
+    transitionManager.addScene(new KolownScene('menu'));
+    transitionManager.addScene(new KolownScene('level'));
+    const profiled = jest.fn();
+    transitionManager.on('transitionProfiled', profiled);
+
+    await transitionManager.switchTo('menu');
+    const switched = transitionManager.switchTo('level');
+    await flushPromises();
+    scheduler.runFrames(8, 20);
+    await switched;
+
+    expect(profiled).toHaveBeenCalledWith({
+      from: 'menu',
+      to: 'level',
+      duration: 100,
+      expectedDuration: 100,
+      cancelled: false,
+      reversed: false
+    });
+    expect(transitionManager.getProfiler()?.getSnapshot().transitions).toHaveLength(1);
+    await transitionManager.destroy();
+  });
+
+  test('should measure nothing while disabled', () => {
+    const profiled = jest.fn();
+    sceneManager.on('frameProfiled', profiled);
+
+    sceneManager.disableProfiler();
+    sceneManager.update(16);
+    expect(sceneManager.getProfiler()).toBeNull();
+    expect(profiled).not.toHaveBeenCalled();
+
+    const profiler = sceneManager.enableProfiler({ clock: scheduler });
+    sceneManager.update(16);
+    expect(profiler.getSnapshot().frames).toBe(1);
+    expect(profiler.getSnapshot().scenes.game.onEnter).toBeUndefined();
+
+    profiler.reset();
+    expect(profiler.getSnapshot().frames).toBe(0);
+    expect(new SceneManager({ autoUpdate: false }).getProfiler()).toBeNull();
+  });
+});
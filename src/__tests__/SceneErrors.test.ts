@@ -0,0 +1,252 @@
+import { SceneManager } from '../SceneManager';
+import { KolownScene } from '../Scene';
+import { ManualScheduler } from '../Scheduler';
+import { SceneError } from '../errors';
+import { ManualPageEnvironment } from '../PageEnvironment';
+import { flushPromises } from './helpers';
+
+class LifecycleScene extends KolownScene {
+  public calls: string[] = [];
+  public failIn: string | null = null;
+
+  onEnter(params?: unknown): void {
+    this.calls.push(params === undefined ? 'enter' : `enter:${JSON.stringify(params)}`);
+    if (this.failIn === 'onEnter') throw new Error(`${this.name} enter failed`);
+  }
+
+  onExit(): void {
+    this.calls.push('exit');
+    if (this.failIn === 'onExit') throw new Error(`${this.name} exit failed`);
+  }
+
+  onPause(): void {
+    this.calls.push('pause');
+    if (this.failIn === 'onPause') throw new Error(`${this.name} pause failed`);
+  }
+
+  onResume(): void {
+    this.calls.push('resume');
+    if (this.failIn === 'onResume') throw new Error(`${this.name} resume failed`);
+  }
+
+  onUpdate(): void {
+    if (this.failIn === 'onUpdate') throw new Error(`${this.name} update failed`);
+  }
+}
+
+describe('SceneManager lifecycle errors', () => {
+  let sceneManager: SceneManager;
+  let onError: jest.Mock;
+  let menu: LifecycleScene;
+  let game: LifecycleScene;
+  let crash: LifecycleScene;
+
+  const createManager = async (options = {}) => {
+    onError = jest.fn();
+    sceneManager = new SceneManager({ autoUpdate: false, enableTransitions: false, onError, ...options });
+    menu = new LifecycleScene('menu');
+    game = new LifecycleScene('game');
+    crash = new LifecycleScene('crash');
+    [menu, game, crash].forEach(scene => sceneManager.addScene(scene));
+
+    await sceneManager.switchTo('menu', { page: 1 });
+    menu.calls = [];
+  };
+
+  test('should wrap a failing onEnter in a SceneError and roll back', async () => {
+    await createManager();
+    game.failIn = 'onEnter';
+
+    const switched = sceneManager.switchTo('game');
+
+    await expect(switched).rejects.toBeInstanceOf(SceneError);
+    await expect(switched).rejects.toMatchObject({ sceneName: 'game', phase: 'onEnter' });
+    await expect(switched).rejects.toThrow('Scene "game" failed in onEnter: game enter failed');
+    expect(sceneManager.getCurrentScene()).toBe(menu);
+    expect(sceneManager.getPreviousScene()).toBeNull();
+    expect(menu.state).toBe('active');
+    expect(game.state).toBe('inactive');
+    expect(menu.calls).toEqual(['exit', 'enter:{"page":1}']);
+    expect(game.calls).toEqual(['enter', 'exit']);
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ sceneName: 'game', phase: 'onEnter' }));
+    expect(sceneManager.getHistory().map(entry => entry.sceneName)).toEqual(['menu']);
+  });
+
+  test('should roll back when the outgoing scene fails in onExit during a transition', async () => {
+    const scheduler = new ManualScheduler();
+    await createManager({ enableTransitions: true, scheduler });
+    menu.failIn = 'onExit';
+
+    await expect(sceneManager.switchTo('game', undefined, { duration: 10 }))
+      .rejects.toMatchObject({ sceneName: 'menu', phase: 'onExit' });
+
+    expect(sceneManager.getCurrentScene()).toBe(menu);
+    expect(sceneManager.getActiveTransition()).toBeNull();
+    expect(menu.state).toBe('active');
+    expect(game.state).toBe('inactive');
+    expect(game.calls).toEqual(['enter', 'exit']);
+  });
+
+  test('should show the error scene when there is nothing to roll back to', async () => {
+    onError = jest.fn();
+    sceneManager = new SceneManager({ autoUpdate: false, enableTransitions: false, onError, errorScene: 'crash' });
+    game = new LifecycleScene('game');
+    crash = new LifecycleScene('crash');
+    sceneManager.addScene(game);
+    sceneManager.addScene(crash);
+    game.failIn = 'onEnter';
+
+    await expect(sceneManager.switchTo('game')).rejects.toBeInstanceOf(SceneError);
+
+    expect(sceneManager.getCurrentScene()).toBe(crash);
+    expect(crash.state).toBe('active');
+    expect(game.state).toBe('inactive');
+    expect(crash.calls).toEqual([expect.stringContaining('enter:')]);
+  });
+
+  test('should keep updating after onUpdate throws and switch to the error scene', async () => {
+    await createManager({ errorScene: 'crash' });
+    menu.failIn = 'onUpdate';
+    const enterParams: unknown[] = [];
+    crash.onEnter = params => {
+      enterParams.push(params);
+    };
+
+    expect(() => sceneManager.update(16)).not.toThrow();
+    sceneManager.update(16);
+    await flushPromises();
+
+    expect(onError).toHaveBeenCalledTimes(2);
+    expect(onError.mock.calls[0][0]).toMatchObject({ sceneName: 'menu', phase: 'onUpdate' });
+    expect(sceneManager.getCurrentScene()).toBe(crash);
+    expect(enterParams).toEqual([{ error: onError.mock.calls[0][0] }]);
+  });
+
+  test('should settle the switch and keep the loop running when transition callbacks throw', async () => {
+    const scheduler = new ManualScheduler();
+    await createManager({ scheduler, autoUpdate: true, enableTransitions: true, defaultTransitionDuration: 50 });
+    let switched = sceneManager.switchTo('game', undefined, {
+      onComplete: () => {
+        throw new Error('callback failed');
+      }
+    });
+    await flushPromises();
+    scheduler.runFrames(4, 20);
+    await switched;
+
+    switched = sceneManager.switchTo('menu', undefined, {
+      easing: () => {
+        throw new Error('easing failed');
+      }
+    });
+    await flushPromises();
+    scheduler.runFrames(1, 20);
+    await switched;
+
+    expect(onError.mock.calls.map(([error]) => error.message)).toEqual([
+      'Scene "game" failed in transition: callback failed',
+      'Scene "menu" failed in transition: easing failed'
+    ]);
+    expect(sceneManager.isSwitching()).toBe(false);
+    expect(sceneManager.getCurrentScene()).toBe(menu);
+    expect(menu.state).toBe('active');
+    expect(scheduler.hasPending()).toBe(true);
+    await sceneManager.destroy();
+  });
+
+  test('should schedule the next frame even if an update throws', async () => {
+    const scheduler = new ManualScheduler();
+    await createManager({ scheduler, autoUpdate: true });
+    onError.mockImplementationOnce(() => {
+      throw new Error('handler failed');
+    });
+    menu.failIn = 'onUpdate';
+
+    expect(() => scheduler.runFrames(1, 16)).toThrow('handler failed');
+    scheduler.runFrames(2, 16);
+
+    expect(onError).toHaveBeenCalledTimes(3);
+    await sceneManager.destroy();
+  });
+
+  test('should log frame errors without an onError handler', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    sceneManager = new SceneManager({ autoUpdate: false, enableTransitions: false });
+    game = new LifecycleScene('game');
+    sceneManager.addScene(game);
+    await sceneManager.switchTo('game');
+    game.failIn = 'onUpdate';
+
+    sceneManager.update(16);
+
+    expect(consoleError).toHaveBeenCalledWith('Unhandled scene error:', expect.any(SceneError));
+    expect(game.state).toBe('active');
+    consoleError.mockRestore();
+  });
+
+  test('should uncover the scene below when a pushed scene fails to enter', async () => {
+    await createManager();
+    game.failIn = 'onEnter';
+
+    await expect(sceneManager.pushScene('game')).rejects.toBeInstanceOf(SceneError);
+
+    expect(sceneManager.getSceneStack()).toEqual([menu]);
+    expect(menu.state).toBe('active');
+    expect(game.state).toBe('inactive');
+  });
+
+  test('should roll back a push when the covered scene fails in onPause', async () => {
+    await createManager();
+    menu.failIn = 'onPause';
+
+    await expect(sceneManager.pushScene('game')).rejects.toMatchObject({ sceneName: 'menu', phase: 'onPause' });
+
+    expect(sceneManager.getSceneStack()).toEqual([menu]);
+    expect(menu.state).toBe('active');
+    expect(menu.calls).toEqual(['pause', 'resume']);
+    expect(game.state).toBe('inactive');
+    expect(game.calls).toEqual([]);
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ sceneName: 'menu', phase: 'onPause' }));
+  });
+
+  test('should report failing onPause and onResume hooks', async () => {
+    const page = new ManualPageEnvironment();
+    await createManager({ autoPause: true, pageEnvironment: page });
+    menu.failIn = 'onPause';
+
+    expect(() => sceneManager.pauseCurrentScene()).toThrow('Scene "menu" failed in onPause: menu pause failed');
+    expect(menu.state).toBe('paused');
+    sceneManager.resumeCurrentScene();
+
+    // The page listener has nobody to throw to
+    page.setHidden(true);
+    menu.failIn = 'onResume';
+    page.setHidden(false);
+
+    expect(menu.state).toBe('active');
+    expect(onError.mock.calls.map(([error]) => error.phase)).toEqual(['onPause', 'onPause', 'onResume']);
+  });
+
+  test('should keep a popped scene on top when its onExit fails', async () => {
+    await createManager();
+    await sceneManager.pushScene('game');
+    game.calls = [];
+    game.failIn = 'onExit';
+
+    await expect(sceneManager.popScene()).rejects.toMatchObject({ sceneName: 'game', phase: 'onExit' });
+
+    expect(sceneManager.getSceneStack()).toEqual([menu, game]);
+    expect(game.state).toBe('active');
+    expect(menu.state).toBe('paused');
+    expect(game.calls).toEqual(['exit', 'enter']);
+  });
+
+  test('should wrap preload failures and leave the current scene untouched', async () => {
+    await createManager();
+    game.preload = () => Promise.reject(new Error('missing texture'));
+
+    await expect(sceneManager.switchTo('game')).rejects.toThrow('Scene "game" failed in preload: missing texture');
+    expect(sceneManager.getCurrentScene()).toBe(menu);
+    expect(menu.calls).toEqual([]);
+  });
+});
@@ -0,0 +1,138 @@
+import { SceneManager } from '../SceneManager';
+import { KolownScene } from '../Scene';
+import { SceneRegistry } from '../SceneRegistry';
+import { migrateSceneGraph } from '../SceneGraph';
+
+class LevelScene extends KolownScene {
+  public enemies: string[] = [];
+
+  serialize(): unknown {
+    return { enemies: this.enemies };
+  }
+
+  deserialize(state: { enemies: string[] }): void {
+    this.enemies = [...state.enemies];
+  }
+}
+
+class MenuScene extends KolownScene {}
+
+describe('Scene graph serialization', () => {
+  let registry: SceneRegistry;
+
+  beforeEach(() => {
+    registry = new SceneRegistry();
+    registry.register('level', LevelScene);
+    registry.register('menu', MenuScene);
+  });
+
+  const createManager = () => new SceneManager({
+    autoUpdate: false,
+    enableTransitions: false,
+    registry
+  });
+
+  test('should save scenes, stack and layers', async () => {
+    const sceneManager = createManager();
+    const level = registry.create('level', 'level-1') as LevelScene;
+    level.enemies = ['slime'];
+    level.setData('score', 10);
+    sceneManager.addScene(level);
+    sceneManager.addScene(registry.create('menu', 'pause'));
+    sceneManager.addScene(registry.create('menu', 'hud'));
+    sceneManager.addLayer('overlay', 10);
+
+    await sceneManager.switchTo('level-1');
+    await sceneManager.pushScene('pause');
+    await sceneManager.switchLayerTo('overlay', 'hud');
+
+    const graph = JSON.parse(JSON.stringify(sceneManager.serialize()));
+
+    expect(graph).toEqual({
+      version: 1,
+      scenes: [
+        { name: 'level-1', type: 'level', state: 'paused', data: { score: 10 }, custom: { enemies: ['slime'] } },
+        { name: 'pause', type: 'menu', state: 'active', data: {} },
+        { name: 'hud', type: 'menu', state: 'active', data: {} }
+      ],
+      stack: ['level-1', 'pause'],
+      layers: [{ name: 'overlay', zIndex: 10, scene: 'hud' }],
+      background: []
+    });
+  });
+
+  test('should recreate scenes through the registry', async () => {
+    const source = createManager();
+    const level = registry.create('level', 'level-1') as LevelScene;
+    level.enemies = ['bat', 'slime'];
+    level.setData('score', 42);
+    source.addScene(level);
+    source.addScene(registry.create('menu', 'pause'));
+    await source.switchTo('level-1');
+    await source.pushScene('pause');
+
+    const saved = JSON.stringify(source.serialize());
+    const target = createManager();
+    await target.deserialize(JSON.parse(saved));
+
+    const restored = target.getSceneStack();
+    expect(restored.map(scene => scene.name)).toEqual(['level-1', 'pause']);
+    expect(restored[0]).toBeInstanceOf(LevelScene);
+    expect((restored[0] as LevelScene).enemies).toEqual(['bat', 'slime']);
+    expect(restored[0].getData('score')).toBe(42);
+    expect(restored[0].state).toBe('paused');
+    expect(restored[1].state).toBe('active');
+  });
+
+  test('should exit the shown scenes before restoring', async () => {
+    const sceneManager = createManager();
+    const menu = registry.create('menu', 'menu');
+    const onExit = jest.spyOn(menu, 'onExit');
+    sceneManager.addScene(menu);
+    sceneManager.addScene(registry.create('level', 'level-1'));
+    await sceneManager.switchTo('menu');
+
+    await sceneManager.deserialize({
+      version: 1,
+      scenes: [{ name: 'level-1', type: 'level', state: 'active', data: {} }],
+      stack: ['level-1'],
+      layers: []
+    });
+
+    expect(onExit).toHaveBeenCalled();
+    expect(menu.state).toBe('inactive');
+    expect(sceneManager.getCurrentScene()?.name).toBe('level-1');
+  });
+
+  test('should fail before tearing down when a type is unknown', async () => {
+    const sceneManager = createManager();
+    sceneManager.addScene(registry.create('menu', 'menu'));
+    await sceneManager.switchTo('menu');
+
+    await expect(sceneManager.deserialize({
+      version: 1,
+      scenes: [{ name: 'boss', type: 'boss', state: 'active', data: {} }],
+      stack: ['boss'],
+      layers: []
+    })).rejects.toThrow('Cannot recreate scene "boss": type "boss" is not registered');
+    expect(sceneManager.getCurrentScene()?.name).toBe('menu');
+  });
+
+  describe('migrateSceneGraph', () => {
+    test('should run migrations from the saved version up', () => {
+      const oldSave = { version: 1, scenes: [], current: 'menu', layers: [] };
+
+      const migrated = migrateSceneGraph(oldSave, {
+        1: ({ current, ...rest }) => ({ ...rest, version: 2, stack: [current] })
+      }, 2);
+
+      expect(migrated).toEqual({ version: 2, scenes: [], stack: ['menu'], layers: [] });
+    });
+
+    test('should reject saves it cannot migrate', () => {
+      expect(() => migrateSceneGraph({ version: 1 }, {}, 2)).toThrow('No migration from scene graph version 1');
+      expect(() => migrateSceneGraph({ version: 3 })).toThrow('Scene graph version 3 is newer than supported version 1');
+      expect(() => migrateSceneGraph({})).toThrow('Scene graph has no version');
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { SceneManager } from '../SceneManager';
+import { KolownScene } from '../Scene';
+import { SceneSwitchDeniedError } from '../errors';
+import { SceneGuardContext, SceneGuardResult } from '../types';
+
+class TrackedScene extends KolownScene {
+  public calls: string[] = [];
+
+  async preload(): Promise<void> {
+    this.calls.push('preload');
+  }
+
+  onEnter(params?: unknown): void {
+    this.calls.push(params === undefined ? 'enter' : `enter:${JSON.stringify(params)}`);
+  }
+
+  onExit(): void {
+    this.calls.push('exit');
+  }
+
+  onPause(): void {
+    this.calls.push('pause');
+  }
+}
+
+class EditorScene extends TrackedScene {
+  public unsavedChanges = false;
+
+  canExit(): SceneGuardResult | Promise<SceneGuardResult> {
+    return !this.unsavedChanges;
+  }
+}
+
+describe('Scene guards', () => {
+  let sceneManager: SceneManager;
+  let editor: EditorScene;
+  let menu: TrackedScene;
+  let login: TrackedScene;
+  let profile: TrackedScene;
+  let loggedIn: boolean;
+
+  beforeEach(async () => {
+    sceneManager = new SceneManager({ autoUpdate: false, enableTransitions: false });
+    editor = new EditorScene('editor');
+    menu = new TrackedScene('menu');
+    login = new TrackedScene('login');
+    profile = new TrackedScene('profile');
+    [editor, menu, login, profile].forEach(scene => sceneManager.addScene(scene));
+    loggedIn = false;
+
+    await sceneManager.switchTo('editor');
+    [editor, menu, login, profile].forEach(scene => { scene.calls = []; });
+  });
+
+  test('should deny leaving a scene from canExit without side effects', async () => {
+    const beforeSwitch = jest.fn();
+    sceneManager.on('beforeSwitch', beforeSwitch);
+    editor.unsavedChanges = true;
+
+    const switched = sceneManager.switchTo('menu');
+
+    await expect(switched).rejects.toBeInstanceOf(SceneSwitchDeniedError);
+    await expect(switched).rejects.toThrow('Switch to scene "menu" was denied by canExit of "editor"');
+    expect(sceneManager.getCurrentScene()).toBe(editor);
+    expect(editor.state).toBe('active');
+    expect(menu.state).toBe('inactive');
+    expect(editor.calls).toEqual([]);
+    expect(menu.calls).toEqual([]);
+    expect(beforeSwitch).not.toHaveBeenCalled();
+    expect(sceneManager.getHistory().map(entry => entry.sceneName)).toEqual(['editor']);
+
+    editor.unsavedChanges = false;
+    await sceneManager.switchTo('menu');
+    expect(sceneManager.getCurrentScene()).toBe(menu);
+  });
+
+  test('should redirect from middleware with params', async () => {
+    const contexts: SceneGuardContext[] = [];
+    sceneManager.use(context => {
+      contexts.push(context);
+      if (context.to === profile && !loggedIn) {
+        return { redirect: 'login', params: { returnTo: 'profile' } };
+      }
+      return true;
+    });
+
+    await sceneManager.switchTo('profile', { tab: 'stats' });
+
+    expect(sceneManager.getCurrentScene()).toBe(login);
+    expect(login.calls).toEqual(['preload', 'enter:{"returnTo":"profile"}']);
+    expect(profile.calls).toEqual([]);
+    expect(contexts.map(context => context.to.name)).toEqual(['profile', 'login']);
+    expect(contexts[0]).toMatchObject({ from: editor, params: { tab: 'stats' }, action: 'push' });
+    expect(sceneManager.getHistory()).toEqual([
+      { sceneName: 'editor', params: undefined },
+      { sceneName: 'login', params: { returnTo: 'profile' } }
+    ]);
+  });
+
+  test('should run canExit, middleware and canEnter in order and wait for async guards', async () => {
+    const order: string[] = [];
+    editor.canExit = async () => {
+      order.push('canExit');
+      return true;
+    };
+    sceneManager.use(async () => {
+      order.push('first');
+      return true;
+    });
+    sceneManager.use(() => {
+      order.push('second');
+      return true;
+    });
+    menu.canEnter = async (): Promise<SceneGuardResult> => {
+      order.push('canEnter');
+      return false;
+    };
+
+    await expect(sceneManager.switchTo('menu')).rejects.toThrow('was denied by canEnter of "menu"');
+    expect(order).toEqual(['canExit', 'first', 'second', 'canEnter']);
+    expect(menu.calls).toEqual([]);
+  });
+
+  test('should stop calling removed middleware', async () => {
+    const dispose = sceneManager.use(() => false);
+    await expect(sceneManager.switchTo('menu')).rejects.toThrow('was denied by middleware');
+
+    dispose();
+    await sceneManager.switchTo('menu');
+    expect(sceneManager.getCurrentScene()).toBe(menu);
+  });
+
+  test('should guard pushScene without asking the covered scene', async () => {
+    editor.unsavedChanges = true;
+    profile.canEnter = () => ({ redirect: 'login' });
+
+    await sceneManager.pushScene('profile');
+
+    expect(sceneManager.getSceneStack()).toEqual([editor, login]);
+    expect(editor.calls).toEqual(['pause']);
+    expect(profile.calls).toEqual([]);
+  });
+
+  test('should give up on redirect loops', async () => {
+    menu.canEnter = () => ({ redirect: 'login' });
+    login.canEnter = () => ({ redirect: 'menu' });
+
+    await expect(sceneManager.switchTo('menu')).rejects.toThrow('Too many guard redirects while switching to scene "menu"');
+    expect(sceneManager.getCurrentScene()).toBe(editor);
+    expect(menu.calls).toEqual([]);
+    expect(login.calls).toEqual([]);
+  });
+
+  test('should keep the queue running after a denied switch', async () => {
+    editor.unsavedChanges = true;
+    const denied = sceneManager.switchTo('menu');
+    const queued = sceneManager.pushScene('login');
+
+    await expect(denied).rejects.toBeInstanceOf(SceneSwitchDeniedError);
+    await queued;
+    expect(sceneManager.getCurrentScene()).toBe(login);
+  });
+});
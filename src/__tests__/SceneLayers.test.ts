@@ -0,0 +1,88 @@
+import { SceneManager } from '../SceneManager';
+import { KolownScene } from '../Scene';
+
+class LayerScene extends KolownScene {
+  constructor(name: string, private updateLog: string[]) {
+    super(name);
+  }
+
+  onUpdate(): void {
+    this.updateLog.push(this.name);
+  }
+}
+
+describe('SceneManager layers', () => {
+  let sceneManager: SceneManager;
+  let updateLog: string[];
+  let world: LayerScene;
+  let hud: LayerScene;
+  let debug: LayerScene;
+  let sky: LayerScene;
+
+  beforeEach(async () => {
+    sceneManager = new SceneManager({ autoUpdate: false, enableTransitions: false });
+    updateLog = [];
+    world = new LayerScene('world', updateLog);
+    hud = new LayerScene('hud', updateLog);
+    debug = new LayerScene('debug', updateLog);
+    sky = new LayerScene('sky', updateLog);
+
+    [world, hud, debug, sky].forEach(scene => sceneManager.addScene(scene));
+    sceneManager.addLayer('debug', 20);
+    sceneManager.addLayer('hud', 10);
+    sceneManager.addLayer('background', -10);
+
+    await sceneManager.switchTo('world');
+    await sceneManager.switchLayerTo('hud', 'hud');
+    await sceneManager.switchLayerTo('debug', 'debug');
+    await sceneManager.switchLayerTo('background', 'sky');
+  });
+
+  test('should expose layers back to front', () => {
+    const order = sceneManager.getLayerOrder();
+
+    expect(order.map(layer => layer.name)).toEqual(['background', SceneManager.MAIN_LAYER, 'hud', 'debug']);
+    expect(order.map(layer => layer.scene)).toEqual([sky, world, hud, debug]);
+  });
+
+  test('should update every layer in order', () => {
+    sceneManager.update(16);
+
+    expect(updateLog).toEqual(['sky', 'world', 'hud', 'debug']);
+  });
+
+  test('should pause and resume a single layer', () => {
+    sceneManager.pauseLayer('hud');
+    sceneManager.update(16);
+
+    expect(hud.state).toBe('paused');
+    expect(updateLog).toEqual(['sky', 'world', 'debug']);
+
+    sceneManager.resumeLayer('hud');
+    expect(hud.state).toBe('active');
+  });
+
+  test('should switch a layer without touching the stack', async () => {
+    const minimap = new LayerScene('minimap', updateLog);
+    sceneManager.addScene(minimap);
+
+    await sceneManager.switchLayerTo('hud', 'minimap');
+
+    expect(sceneManager.getLayerScene('hud')).toBe(minimap);
+    expect(sceneManager.getCurrentScene()).toBe(world);
+    expect(hud.state).toBe('inactive');
+  });
+
+  test('should not show the same scene twice', async () => {
+    await expect(sceneManager.switchLayerTo('debug', 'hud')).rejects.toThrow('Scene "hud" is already shown in layer "hud"');
+    await expect(sceneManager.switchTo('hud')).rejects.toThrow('Scene "hud" is already shown in layer "hud"');
+  });
+
+  test('should exit the layer scene when the layer is removed', async () => {
+    await sceneManager.removeLayer('debug');
+
+    expect(debug.state).toBe('inactive');
+    expect(sceneManager.getLayerOrder().map(layer => layer.name)).not.toContain('debug');
+    expect(() => sceneManager.addLayer('hud', 0)).toThrow('Layer "hud" already exists');
+  });
+});
@@ -0,0 +1,158 @@
+import { SceneManager } from '../SceneManager';
+import { KolownScene } from '../Scene';
+import { EventEmitter } from '../EventEmitter';
+import { SceneSwitchCancelledError } from '../errors';
+import { SceneStateChangeEvent } from '../types';
+import { flushPromises } from './helpers';
+
+describe('EventEmitter', () => {
+  interface TestEvents {
+    ping: { count: number };
+  }
+
+  test('should return a disposer from on', () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const listener = jest.fn();
+
+    const dispose = emitter.on('ping', listener);
+    emitter.emit('ping', { count: 1 });
+    dispose();
+    emitter.emit('ping', { count: 2 });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ count: 1 });
+    expect(emitter.hasListeners('ping')).toBe(false);
+  });
+
+  test('should call once listeners a single time', () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const listener = jest.fn();
+
+    emitter.once('ping', listener);
+    emitter.emit('ping', { count: 1 });
+    emitter.emit('ping', { count: 2 });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  test('should keep dispatching when a listener throws', () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const listener = jest.fn();
+
+    emitter.on('ping', () => {
+      throw new Error('boom');
+    });
+    emitter.on('ping', listener);
+    emitter.emit('ping', { count: 1 });
+
+    expect(listener).toHaveBeenCalled();
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
+
+describe('SceneManager events', () => {
+  let sceneManager: SceneManager;
+  let menu: KolownScene;
+  let game: KolownScene;
+
+  beforeEach(() => {
+    sceneManager = new SceneManager({ autoUpdate: false, enableTransitions: false });
+    menu = new KolownScene('menu');
+    game = new KolownScene('game');
+  });
+
+  test('should emit sceneAdded and sceneRemoved', () => {
+    const added = jest.fn();
+    const removed = jest.fn();
+    sceneManager.on('sceneAdded', added);
+    sceneManager.on('sceneRemoved', removed);
+
+    sceneManager.addScene(menu);
+    sceneManager.removeScene('menu');
+
+    expect(added).toHaveBeenCalledWith({ scene: menu });
+    expect(removed).toHaveBeenCalledWith({ scene: menu });
+  });
+
+  test('should emit stateChanged with the old and new state', async () => {
+    const changes: SceneStateChangeEvent[] = [];
+    sceneManager.on('stateChanged', event => changes.push(event));
+    sceneManager.addScene(menu);
+
+    await sceneManager.switchTo('menu');
+
+    expect(changes).toEqual([
+      { scene: menu, previousState: 'inactive', state: 'entering' },
+      { scene: menu, previousState: 'entering', state: 'active' }
+    ]);
+  });
+
+  test('should emit paused and resumed', async () => {
+    const paused = jest.fn();
+    const resumed = jest.fn();
+    sceneManager.on('paused', paused);
+    sceneManager.on('resumed', resumed);
+    sceneManager.addScene(menu);
+    await sceneManager.switchTo('menu');
+
+    sceneManager.pauseCurrentScene();
+    sceneManager.resumeCurrentScene();
+
+    expect(paused).toHaveBeenCalledWith({ scene: menu, previousState: 'active', state: 'paused' });
+    expect(resumed).toHaveBeenCalledWith({ scene: menu, previousState: 'paused', state: 'active' });
+  });
+
+  test('should let beforeSwitch listeners cancel a switch', async () => {
+    sceneManager.addScene(menu);
+    sceneManager.addScene(game);
+    await sceneManager.switchTo('menu');
+
+    const dispose = sceneManager.on('beforeSwitch', event => {
+      if (event.to === game) {
+        event.cancel();
+      }
+    });
+
+    await expect(sceneManager.switchTo('game')).rejects.toBeInstanceOf(SceneSwitchCancelledError);
+    expect(sceneManager.getCurrentScene()).toBe(menu);
+    expect(game.state).toBe('inactive');
+
+    dispose();
+    await sceneManager.switchTo('game');
+    expect(sceneManager.getCurrentScene()).toBe(game);
+  });
+
+  test('should emit transition events', async () => {
+    const originalNow = Date.now;
+    let mockTime = 1000;
+    Date.now = jest.fn(() => mockTime);
+
+    try {
+      const transitionManager = new SceneManager({ autoUpdate: false, defaultTransitionDuration: 100 });
+      const start = jest.fn();
+      const progress = jest.fn();
+      const end = jest.fn();
+      transitionManager.on('transitionStart', start);
+      transitionManager.on('transitionProgress', progress);
+      transitionManager.on('transitionEnd', end);
+      transitionManager.addScene(menu);
+
+      const switched = transitionManager.switchTo('menu', undefined, {});
+      await flushPromises();
+      expect(start).toHaveBeenCalledWith({ from: null, to: menu, duration: 100 });
+
+      mockTime += 50;
+      transitionManager.update(16);
+      expect(progress).toHaveBeenCalledWith({ from: null, to: menu, progress: 0.5 });
+
+      mockTime += 50;
+      transitionManager.update(16);
+      await switched;
+      expect(end).toHaveBeenCalledWith({ from: null, to: menu, cancelled: false, reversed: false });
+    } finally {
+      Date.now = originalNow;
+    }
+  });
+});
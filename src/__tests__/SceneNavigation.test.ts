@@ -0,0 +1,211 @@
+import { SceneManager } from '../SceneManager';
+import { KolownScene } from '../Scene';
+import { SceneRouter } from '../SceneRouter';
+import { MemoryRouterHistory } from '../RouterHistory';
+import { NavigatedEvent } from '../types';
+import { flushPromises } from './helpers';
+
+class ParamScene extends KolownScene {
+  public enteredWith: unknown[] = [];
+
+  onEnter(params?: unknown): void {
+    this.enteredWith.push(params);
+  }
+}
+
+describe('SceneManager navigation history', () => {
+  let sceneManager: SceneManager;
+
+  beforeEach(() => {
+    sceneManager = new SceneManager({ autoUpdate: false, enableTransitions: false, maxHistory: 3 });
+    ['menu', 'level', 'shop', 'credits'].forEach(name => sceneManager.addScene(new ParamScene(name)));
+  });
+
+  test('should go back and forward with the original params', async () => {
+    await sceneManager.switchTo('menu');
+    await sceneManager.switchTo('level', { id: 2 });
+    await sceneManager.switchTo('shop');
+
+    await sceneManager.back();
+    expect(sceneManager.getCurrentScene()?.name).toBe('level');
+    expect((sceneManager.getCurrentScene() as ParamScene).enteredWith).toEqual([{ id: 2 }, { id: 2 }]);
+    expect(sceneManager.canGoForward()).toBe(true);
+
+    await sceneManager.forward();
+    expect(sceneManager.getCurrentScene()?.name).toBe('shop');
+    expect(sceneManager.canGoForward()).toBe(false);
+  });
+
+  test('should drop forward entries on a new switch and stay bounded', async () => {
+    await sceneManager.switchTo('menu');
+    await sceneManager.switchTo('level', { id: 1 });
+    await sceneManager.back();
+    await sceneManager.switchTo('shop');
+
+    expect(sceneManager.getHistory().map(entry => entry.sceneName)).toEqual(['menu', 'shop']);
+
+    await sceneManager.switchTo('credits');
+    await sceneManager.switchTo('menu');
+    expect(sceneManager.getHistory().map(entry => entry.sceneName)).toEqual(['shop', 'credits', 'menu']);
+    expect(sceneManager.getHistoryIndex()).toBe(2);
+  });
+
+  test('should replace the current entry', async () => {
+    await sceneManager.switchTo('menu');
+    await sceneManager.switchTo('level', { id: 1 }, { replace: true });
+
+    expect(sceneManager.getHistory()).toEqual([{ sceneName: 'level', params: { id: 1 } }]);
+    expect(sceneManager.canGoBack()).toBe(false);
+    await expect(sceneManager.back()).rejects.toThrow('Cannot go back: no earlier history entry');
+  });
+
+  test('should emit navigated with the action', async () => {
+    const actions: NavigatedEvent['action'][] = [];
+    sceneManager.on('navigated', event => actions.push(event.action));
+
+    await sceneManager.switchTo('menu');
+    await sceneManager.switchTo('level', { id: 1 });
+    await sceneManager.back();
+    await sceneManager.switchTo('shop', undefined, { replace: true });
+
+    expect(actions).toEqual(['push', 'push', 'back', 'replace']);
+  });
+});
+
+describe('SceneRouter', () => {
+  let sceneManager: SceneManager;
+  let history: MemoryRouterHistory;
+  let router: SceneRouter;
+  let level: ParamScene;
+
+  const createRouter = (initialPath: string) => {
+    history = new MemoryRouterHistory(initialPath);
+    router = new SceneRouter(sceneManager, {
+      history,
+      notFoundScene: 'notFound',
+      routes: [
+        { path: '/', scene: 'menu' },
+        {
+          path: '/level/:id',
+          scene: 'level',
+          parse: ({ id }) => ({ id: Number(id) }),
+          format: ({ id }) => ({ id })
+        },
+        { path: '/shop/:section', scene: 'shop' }
+      ]
+    });
+  };
+
+  beforeEach(() => {
+    sceneManager = new SceneManager({ autoUpdate: false, enableTransitions: false });
+    level = new ParamScene('level');
+    [new ParamScene('menu'), level, new ParamScene('shop'), new ParamScene('notFound')]
+      .forEach(scene => sceneManager.addScene(scene));
+  });
+
+  afterEach(() => {
+    router.stop();
+  });
+
+  test('should open the scene for a deep link', async () => {
+    createRouter('/level/7');
+
+    await router.start();
+
+    expect(sceneManager.getCurrentScene()).toBe(level);
+    expect(level.enteredWith).toEqual([{ id: 7 }]);
+    expect(history.getEntries()).toEqual(['/level/7']);
+  });
+
+  test('should write the path when the manager switches', async () => {
+    createRouter('/');
+    await router.start();
+
+    await sceneManager.switchTo('level', { id: 3 });
+    await sceneManager.switchTo('shop', { section: 'hats & caps' }, { replace: true });
+
+    expect(history.getEntries()).toEqual(['/', '/shop/hats%20%26%20caps']);
+  });
+
+  test('should switch scenes when the history moves', async () => {
+    createRouter('/');
+    await router.start();
+    await router.navigate('/level/2');
+    expect(history.getEntries()).toEqual(['/', '/level/2']);
+
+    history.back();
+    await flushPromises();
+
+    expect(sceneManager.getCurrentScene()?.name).toBe('menu');
+    expect(history.getPath()).toBe('/');
+  });
+
+  test('should follow the browser\'s back and forward buttons without adding entries', async () => {
+    createRouter('/');
+    await router.start();
+    await router.navigate('/level/1');
+    await sceneManager.switchTo('shop', { section: 'hats' });
+
+    history.back();
+    await flushPromises();
+
+    expect(sceneManager.getCurrentScene()).toBe(level);
+    expect(sceneManager.getHistory().map(entry => entry.sceneName)).toEqual(['menu', 'level', 'shop']);
+    expect(sceneManager.getHistoryIndex()).toBe(1);
+    expect(history.getEntries()).toEqual(['/', '/level/1', '/shop/hats']);
+
+    history.forward();
+    await flushPromises();
+    expect(sceneManager.getCurrentScene()?.name).toBe('shop');
+
+    history.go(-1);
+    await flushPromises();
+    await sceneManager.back();
+    expect(sceneManager.getCurrentScene()?.name).toBe('menu');
+    expect(sceneManager.getHistoryIndex()).toBe(0);
+  });
+
+  test('should move the history instead of pushing when the manager goes back', async () => {
+    createRouter('/');
+    await router.start();
+    await router.navigate('/level/1');
+    await sceneManager.switchTo('shop', { section: 'hats' });
+
+    await sceneManager.back();
+    await flushPromises();
+
+    expect(history.getEntries()).toEqual(['/', '/level/1', '/shop/hats']);
+    expect(history.getPath()).toBe('/level/1');
+    expect(sceneManager.getHistoryIndex()).toBe(1);
+
+    history.back();
+    await flushPromises();
+
+    expect(sceneManager.getCurrentScene()?.name).toBe('menu');
+    expect(sceneManager.getHistoryIndex()).toBe(0);
+
+    await sceneManager.forward();
+    await flushPromises();
+    expect(history.getPath()).toBe('/level/1');
+    expect(sceneManager.getHistory().map(entry => entry.sceneName)).toEqual(['menu', 'level', 'shop']);
+  });
+
+  test('should pass query params and fall back to the not found scene', async () => {
+    createRouter('/shop/weapons?sort=price');
+    await router.start();
+    expect(router.match('/shop/weapons?sort=price')?.params).toEqual({ section: 'weapons', sort: 'price' });
+    expect(history.getPath()).toBe('/shop/weapons?sort=price');
+
+    await router.navigate('/missing');
+    expect(sceneManager.getCurrentScene()?.name).toBe('notFound');
+    expect(history.getPath()).toBe('/missing');
+  });
+
+  test('should build paths for scenes', () => {
+    createRouter('/');
+
+    expect(router.pathFor('level', { id: 12 })).toBe('/level/12');
+    expect(() => router.pathFor('shop')).toThrow('Missing param "section" for route "/shop/:section"');
+    expect(() => router.pathFor('credits')).toThrow('No route for scene "credits"');
+  });
+});
@@ -0,0 +1,109 @@
+import { SceneManager } from '../SceneManager';
+import { KolownScene } from '../Scene';
+import { flushPromises } from './helpers';
+
+interface GameScenes {
+  menu: undefined;
+  timer: { duration: number };
+  level: { id: number };
+  inventory: { slots: number } | undefined;
+}
+
+class LevelScene extends KolownScene {
+  public levelId = 0;
+
+  onEnter(params: { id: number }): void {
+    this.levelId = params.id;
+  }
+}
+
+class MenuScene extends KolownScene {
+  public results: unknown[] = [];
+
+  onResume(result?: unknown): void {
+    this.results.push(result);
+  }
+}
+
+describe('Typed scene params', () => {
+  let sceneManager: SceneManager<GameScenes>;
+  let menu: MenuScene;
+  let level: LevelScene;
+  let inventory: KolownScene;
+
+  beforeEach(() => {
+    sceneManager = new SceneManager<GameScenes>({ autoUpdate: false, enableTransitions: false });
+    menu = new MenuScene('menu');
+    level = new LevelScene('level');
+    inventory = new KolownScene('inventory');
+    sceneManager.addScene(menu);
+    sceneManager.addScene(level);
+    sceneManager.addScene(inventory);
+  });
+
+  test('should deliver params to onEnter', async () => {
+    await sceneManager.switchTo('level', { id: 3 });
+
+    expect(level.levelId).toBe(3);
+  });
+
+  test('should check scene names and param shapes at compile time', async () => {
+    await sceneManager.switchTo('menu');
+    await sceneManager.pushScene('inventory');
+
+    // @ts-expect-error unknown scene name
+    await expect(sceneManager.switchTo('credits')).rejects.toThrow('Scene "credits" not found');
+    // @ts-expect-error level requires params
+    const missingParams = () => sceneManager.switchTo('level');
+    // @ts-expect-error id must be a number
+    const wrongParams = () => sceneManager.switchTo('level', { id: 'three' });
+
+    expect(missingParams).toBeDefined();
+    expect(wrongParams).toBeDefined();
+  });
+
+  test('should deliver params whose keys look like transition options', async () => {
+    const timer = new KolownScene('timer');
+    const onEnter = jest.spyOn(timer, 'onEnter');
+    sceneManager.addScene(timer);
+
+    await sceneManager.switchTo('timer', { duration: 5 });
+
+    expect(onEnter).toHaveBeenCalledWith({ duration: 5 });
+  });
+
+  test('should return a result to the previous scene on pop', async () => {
+    const onEnter = jest.spyOn(inventory, 'onEnter');
+    await sceneManager.switchTo('menu');
+    await sceneManager.pushScene('inventory', { slots: 4 });
+
+    await sceneManager.popScene({ picked: 'sword' });
+
+    expect(onEnter).toHaveBeenCalledWith({ slots: 4 });
+    expect(menu.results).toEqual([{ picked: 'sword' }]);
+  });
+
+  test('should accept transition options after params', async () => {
+    const transitionManager = new SceneManager<GameScenes>({ autoUpdate: false });
+    const otherLevel = new LevelScene('level');
+    transitionManager.addScene(otherLevel);
+    const onComplete = jest.fn();
+
+    const originalNow = Date.now;
+    let mockTime = 1000;
+    Date.now = jest.fn(() => mockTime);
+
+    try {
+      const switched = transitionManager.switchTo('level', { id: 7 }, { duration: 10, onComplete });
+      await flushPromises();
+      mockTime += 10;
+      transitionManager.update(16);
+      await switched;
+    } finally {
+      Date.now = originalNow;
+    }
+
+    expect(otherLevel.levelId).toBe(7);
+    expect(onComplete).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,115 @@
+import { SceneManager } from '../SceneManager';
+import { KolownScene } from '../Scene';
+
+class StackScene extends KolownScene {
+  public lifecycleCalls: string[] = [];
+
+  onEnter(): void {
+    this.lifecycleCalls.push('enter');
+  }
+
+  onExit(): void {
+    this.lifecycleCalls.push('exit');
+  }
+
+  onUpdate(): void {
+    this.lifecycleCalls.push('update');
+  }
+
+  onPause(): void {
+    this.lifecycleCalls.push('pause');
+  }
+
+  onResume(): void {
+    this.lifecycleCalls.push('resume');
+  }
+}
+
+describe('SceneManager stack', () => {
+  let sceneManager: SceneManager;
+  let game: StackScene;
+  let pause: StackScene;
+  let options: StackScene;
+
+  beforeEach(async () => {
+    sceneManager = new SceneManager({ autoUpdate: false, enableTransitions: false });
+    game = new StackScene('game');
+    pause = new StackScene('pause');
+    options = new StackScene('options');
+
+    sceneManager.addScene(game);
+    sceneManager.addScene(pause);
+    sceneManager.addScene(options);
+    await sceneManager.switchTo('game');
+  });
+
+  test('should pause the covered scene on push', async () => {
+    await sceneManager.pushScene('pause');
+
+    expect(sceneManager.getCurrentScene()).toBe(pause);
+    expect(sceneManager.getSceneStack()).toEqual([game, pause]);
+    expect(game.state).toBe('paused');
+    expect(game.lifecycleCalls).toEqual(['enter', 'pause']);
+    expect(pause.state).toBe('active');
+  });
+
+  test('should resume the covered scene on pop', async () => {
+    await sceneManager.pushScene('pause');
+    await sceneManager.popScene();
+
+    expect(sceneManager.getCurrentScene()).toBe(game);
+    expect(sceneManager.getSceneStack()).toEqual([game]);
+    expect(game.state).toBe('active');
+    expect(game.lifecycleCalls).toEqual(['enter', 'pause', 'resume']);
+    expect(pause.state).toBe('inactive');
+    expect(pause.lifecycleCalls).toEqual(['enter', 'exit']);
+  });
+
+  test('should replace only the top of the stack', async () => {
+    await sceneManager.pushScene('pause');
+    await sceneManager.replaceScene('options');
+
+    expect(sceneManager.getSceneStack()).toEqual([game, options]);
+    expect(pause.lifecycleCalls).toEqual(['enter', 'exit']);
+    expect(game.state).toBe('paused');
+  });
+
+  test('should reject popping the last scene', async () => {
+    await expect(sceneManager.popScene()).rejects.toThrow('Cannot pop the last scene on the stack');
+  });
+
+  test('should reject pushing a scene that is already on the stack', async () => {
+    await sceneManager.pushScene('pause');
+
+    await expect(sceneManager.pushScene('game')).rejects.toThrow('Scene "game" is already on the stack');
+    await expect(sceneManager.switchTo('game')).rejects.toThrow('Scene "game" is already on the stack');
+  });
+
+  test('should only update covered scenes when enabled', async () => {
+    await sceneManager.pushScene('pause');
+    sceneManager.update(16);
+    expect(game.lifecycleCalls).not.toContain('update');
+
+    const updatingManager = new SceneManager({
+      autoUpdate: false,
+      enableTransitions: false,
+      updateCoveredScenes: true
+    });
+    const world = new StackScene('world');
+    const menu = new StackScene('menu');
+    updatingManager.addScene(world);
+    updatingManager.addScene(menu);
+    await updatingManager.switchTo('world');
+    await updatingManager.pushScene('menu');
+    updatingManager.update(16);
+
+    expect(world.lifecycleCalls).toContain('update');
+    expect(menu.lifecycleCalls).toContain('update');
+  });
+
+  test('should refuse stack inspection when disabled', () => {
+    const closedManager = new SceneManager({ autoUpdate: false, inspectableStack: false });
+
+    expect(() => closedManager.getSceneStack()).toThrow('Scene stack inspection is disabled');
+  });
+});
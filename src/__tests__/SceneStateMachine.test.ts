@@ -0,0 +1,106 @@
+import { canTransition } from '../SceneStateMachine';
+import { KolownScene } from '../Scene';
+import { SceneManager } from '../SceneManager';
+import { SceneStateError } from '../errors';
+
+describe('Scene state machine', () => {
+  let scene: KolownScene;
+  let consoleWarn: jest.SpyInstance;
+
+  beforeEach(() => {
+    scene = new KolownScene('machine');
+    consoleWarn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    consoleWarn.mockRestore();
+  });
+
+  test('should describe the legal transitions', () => {
+    expect(canTransition('inactive', 'entering')).toBe(true);
+    expect(canTransition('entering', 'active')).toBe(true);
+    expect(canTransition('active', 'paused')).toBe(true);
+    expect(canTransition('paused', 'active')).toBe(true);
+    expect(canTransition('paused', 'exiting')).toBe(true);
+    expect(canTransition('exiting', 'inactive')).toBe(true);
+
+    expect(canTransition('paused', 'entering')).toBe(false);
+    expect(canTransition('inactive', 'active')).toBe(false);
+    expect(canTransition('active', 'inactive')).toBe(false);
+  });
+
+  test('should warn on illegal transitions by default', () => {
+    scene.setState('paused');
+
+    expect(scene.state).toBe('paused');
+    expect(consoleWarn).toHaveBeenCalledWith('Scene "machine" cannot go from "inactive" to "paused"');
+  });
+
+  test('should throw on illegal transitions in strict mode', () => {
+    scene.strictStateTransitions = true;
+
+    expect(() => scene.setState('active')).toThrow(SceneStateError);
+    expect(scene.state).toBe('inactive');
+  });
+
+  test('should keep a bounded transition history', () => {
+    scene.setState('entering');
+    scene.setState('active');
+    scene.setState('paused');
+
+    const history = scene.getStateHistory();
+    expect(history.map(entry => [entry.from, entry.to, entry.legal])).toEqual([
+      ['inactive', 'entering', true],
+      ['entering', 'active', true],
+      ['active', 'paused', true]
+    ]);
+
+    const originalMax = KolownScene.maxStateHistory;
+    KolownScene.maxStateHistory = 2;
+    try {
+      scene.setState('active');
+      expect(scene.getStateHistory()).toHaveLength(2);
+    } finally {
+      KolownScene.maxStateHistory = originalMax;
+    }
+  });
+
+  test('should only make legal transitions from SceneManager', async () => {
+    const sceneManager = new SceneManager({
+      autoUpdate: false,
+      enableTransitions: false,
+      strictStateTransitions: true
+    });
+    const game = new KolownScene('game');
+    const pause = new KolownScene('pause');
+    sceneManager.addScene(game);
+    sceneManager.addScene(pause);
+
+    await sceneManager.switchTo('game');
+    sceneManager.pauseCurrentScene();
+    sceneManager.resumeCurrentScene();
+    await sceneManager.pushScene('pause');
+    await sceneManager.popScene();
+    await sceneManager.switchTo('pause');
+
+    expect(game.strictStateTransitions).toBe(true);
+    expect(consoleWarn).not.toHaveBeenCalled();
+  });
+
+  test('should deactivate a removed scene and resume the one below it', async () => {
+    const sceneManager = new SceneManager({ autoUpdate: false, enableTransitions: false });
+    const game = new KolownScene('game');
+    const pause = new KolownScene('pause');
+    sceneManager.addScene(game);
+    sceneManager.addScene(pause);
+    await sceneManager.switchTo('game');
+    await sceneManager.pushScene('pause');
+
+    await sceneManager.removeScene('pause');
+
+    expect(pause.state).toBe('inactive');
+    expect(sceneManager.getCurrentScene()).toBe(game);
+    expect(game.state).toBe('active');
+    expect(consoleWarn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,126 @@
+import { SceneManager } from '../SceneManager';
+import { KolownScene } from '../Scene';
+import { ManualScheduler, TimerScheduler } from '../Scheduler';
+import { SceneTransition } from '../SceneTransition';
+import { flushPromises } from './helpers';
+
+class RecordingScene extends KolownScene {
+  public deltas: number[] = [];
+
+  onUpdate(deltaTime: number): void {
+    this.deltas.push(deltaTime);
+  }
+}
+
+describe('ManualScheduler', () => {
+  test('should run timers in due order as time advances', () => {
+    const scheduler = new ManualScheduler(100);
+    const calls: string[] = [];
+    scheduler.setTimeout(() => calls.push('late'), 50);
+    scheduler.setTimeout(() => calls.push('early'), 10);
+    const cancel = scheduler.setTimeout(() => calls.push('cancelled'), 20);
+    cancel();
+
+    scheduler.advance(30);
+    expect(calls).toEqual(['early']);
+    expect(scheduler.now()).toBe(130);
+
+    scheduler.advance(20);
+    expect(calls).toEqual(['early', 'late']);
+    expect(scheduler.hasPending()).toBe(false);
+  });
+
+  test('should run frame callbacks once per frame', () => {
+    const scheduler = new ManualScheduler();
+    let frames = 0;
+    const frame = () => {
+      frames++;
+      scheduler.requestFrame(frame);
+    };
+    scheduler.requestFrame(frame);
+
+    scheduler.runFrames(3, 10);
+
+    expect(frames).toBe(3);
+    expect(scheduler.now()).toBe(30);
+  });
+
+  test('should drive transitions without touching Date.now', () => {
+    const scheduler = new ManualScheduler();
+    const transition = new SceneTransition({ duration: 100 }, scheduler);
+
+    transition.start();
+    scheduler.advance(25);
+
+    expect(transition.update()).toBe(0.25);
+  });
+});
+
+describe('TimerScheduler', () => {
+  test('should run frames on timers', async () => {
+    const scheduler = new TimerScheduler(1);
+    const frame = jest.fn();
+    const cancelledFrame = jest.fn();
+
+    scheduler.requestFrame(frame);
+    scheduler.requestFrame(cancelledFrame)();
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(frame).toHaveBeenCalledTimes(1);
+    expect(cancelledFrame).not.toHaveBeenCalled();
+  });
+});
+
+describe('SceneManager with a scheduler', () => {
+  test('should run the update loop and transitions from the scheduler', async () => {
+    const scheduler = new ManualScheduler(1000);
+    const sceneManager = new SceneManager({ scheduler, defaultTransitionDuration: 100 });
+    const scene = new RecordingScene('level');
+    sceneManager.addScene(scene);
+
+    const switched = sceneManager.switchTo('level', undefined, {});
+    await flushPromises();
+    scheduler.runFrames(5, 20);
+    await switched;
+
+    expect(scene.state).toBe('active');
+    expect(scene.deltas).toEqual([20, 20, 20, 20, 20]);
+    expect(scene.getStateHistory().map(entry => entry.timestamp)).toEqual([1000, 1100]);
+
+    sceneManager.stopUpdateLoop();
+    expect(scheduler.hasPending()).toBe(false);
+  });
+
+  test('should wait for the loading scene delay on the scheduler', async () => {
+    const scheduler = new ManualScheduler();
+    const sceneManager = new SceneManager({
+      scheduler,
+      autoUpdate: false,
+      enableTransitions: false,
+      loadingScene: 'loading',
+      loadingSceneDelay: 100
+    });
+    const level = new KolownScene('level');
+    let finishLoading = () => undefined as void;
+    level.preload = () => new Promise(resolve => {
+      finishLoading = resolve;
+    });
+    const loading = new KolownScene('loading');
+    sceneManager.addScene(level);
+    sceneManager.addScene(loading);
+
+    const switched = sceneManager.switchTo('level');
+    await flushPromises();
+    scheduler.advance(99);
+    await flushPromises();
+    expect(sceneManager.getCurrentScene()).toBeNull();
+
+    scheduler.advance(1);
+    await flushPromises();
+    expect(sceneManager.getCurrentScene()).toBe(loading);
+
+    finishLoading();
+    await switched;
+    expect(sceneManager.getCurrentScene()).toBe(level);
+  });
+});
@@ -0,0 +1,122 @@
+import { SceneManager } from '../SceneManager';
+import { KolownScene } from '../Scene';
+import { Store } from '../Store';
+
+interface GameState {
+  score: number;
+  settings: { music: boolean };
+  inventory: string[];
+}
+
+interface LevelData {
+  level: number;
+  collected: string[];
+}
+
+class LevelScene extends KolownScene<LevelData> {
+  onEnter(): void {
+    const store = this.getStore<GameState>();
+    this.setData('level', this.getData('level') + 1);
+    store.setState(state => ({ score: state.score + 10 }));
+  }
+}
+
+const initialState = (): GameState => ({ score: 0, settings: { music: true }, inventory: [] });
+
+describe('Store', () => {
+  test('should merge updates and notify subscribers with the previous state', () => {
+    const store = new Store(initialState());
+    const listener = jest.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    store.setState({ score: 5 });
+    store.setState(state => ({ inventory: [...state.inventory, 'key'] }));
+    unsubscribe();
+    store.setState({ score: 6 });
+
+    expect(store.getState()).toEqual({ score: 6, settings: { music: true }, inventory: ['key'] });
+    expect(store.select(state => state.inventory.length)).toBe(1);
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(listener).toHaveBeenCalledWith(
+      { score: 5, settings: { music: true }, inventory: ['key'] },
+      { score: 5, settings: { music: true }, inventory: [] }
+    );
+  });
+
+  test('should only notify watchers when the selected value changes', () => {
+    const store = new Store(initialState());
+    const music = jest.fn();
+    const itemCount = jest.fn();
+    store.watch(state => state.settings.music, music);
+    store.watch(state => state.inventory, itemCount, (a, b) => a.length === b.length);
+
+    store.setState({ score: 1 });
+    store.setState({ inventory: ['sword'] });
+    store.setState(state => ({ inventory: [...state.inventory.slice(1), 'shield'] }));
+    store.setState({ settings: { music: false } });
+    store.reset();
+
+    expect(music.mock.calls).toEqual([[false, true], [true, false]]);
+    expect(itemCount.mock.calls).toEqual([[['sword'], []], [[], ['sword']]]);
+    expect(store.getState()).toEqual(initialState());
+  });
+});
+
+describe('SceneManager store and scene data', () => {
+  let sceneManager: SceneManager<Record<string, unknown>, GameState>;
+
+  beforeEach(() => {
+    sceneManager = new SceneManager({ autoUpdate: false, enableTransitions: false, store: new Store(initialState()) });
+    sceneManager.addScene(new KolownScene('menu'));
+  });
+
+  test('should share the manager\'s store with every scene', async () => {
+    const level = new LevelScene('level', { data: { level: 0, collected: [] } });
+    expect(() => level.getStore()).toThrow('Scene "level" has not been added to a SceneManager');
+    sceneManager.addScene(level);
+
+    await sceneManager.switchTo('level');
+
+    expect(level.getStore()).toBe(sceneManager.getStore());
+    expect(sceneManager.getStore().getState().score).toBe(10);
+  });
+
+  test('should keep scene data across re-entry by default', async () => {
+    const level = new LevelScene('level', { data: { level: 0, collected: [] } });
+    sceneManager.addScene(level);
+
+    await sceneManager.switchTo('level');
+    await sceneManager.switchTo('menu');
+    await sceneManager.switchTo('level');
+
+    expect(level.getData('level')).toBe(2);
+  });
+
+  test('should reset scene data on exit with the reset policy', async () => {
+    const level = new LevelScene('level', { data: () => ({ level: 0, collected: [] }), dataPolicy: 'reset' });
+    sceneManager.addScene(level);
+
+    await sceneManager.switchTo('level');
+    level.getData('collected').push('coin');
+    expect(level.data).toEqual({ level: 1, collected: ['coin'] });
+
+    await sceneManager.switchTo('menu');
+    expect(level.data).toEqual({ level: 0, collected: [] });
+
+    await sceneManager.switchTo('level');
+    expect(level.getData('level')).toBe(1);
+    expect(sceneManager.getStore().getState().score).toBe(20);
+  });
+
+  test('should keep restored data when a saved graph is loaded', async () => {
+    const level = new LevelScene('level', { data: { level: 0, collected: [] }, dataPolicy: 'reset' });
+    sceneManager.addScene(level);
+    await sceneManager.switchTo('level');
+    level.setData('level', 7);
+    const saved = sceneManager.serialize();
+
+    await sceneManager.deserialize(saved);
+
+    expect(level.getData('level')).toBe(8);
+  });
+});
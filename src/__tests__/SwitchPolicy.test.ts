@@ -0,0 +1,112 @@
+import { SceneManager } from '../SceneManager';
+import { KolownScene } from '../Scene';
+import { SceneSwitchCancelledError, SceneSwitchRejectedError } from '../errors';
+import { flushPromises } from './helpers';
+
+describe('SceneManager concurrent switches', () => {
+  const originalNow = Date.now;
+  let mockTime: number;
+  let sceneManager: SceneManager;
+  let menu: KolownScene;
+  let game: KolownScene;
+  let options: KolownScene;
+
+  const finishTransition = () => {
+    mockTime += 100;
+    sceneManager.update(16);
+  };
+
+  beforeEach(async () => {
+    mockTime = 1000;
+    Date.now = jest.fn(() => mockTime);
+
+    sceneManager = new SceneManager({ autoUpdate: false, defaultTransitionDuration: 100 });
+    menu = new KolownScene('menu');
+    game = new KolownScene('game');
+    options = new KolownScene('options');
+    [menu, game, options].forEach(scene => sceneManager.addScene(scene));
+
+    const entered = sceneManager.switchTo('menu');
+    await flushPromises();
+    finishTransition();
+    await entered;
+  });
+
+  afterEach(() => {
+    Date.now = originalNow;
+  });
+
+  test('should queue switches by default', async () => {
+    const toGame = sceneManager.switchTo('game');
+    const toOptions = sceneManager.switchTo('options');
+    expect(sceneManager.isSwitching()).toBe(true);
+
+    await flushPromises();
+    finishTransition();
+    await toGame;
+    expect(sceneManager.getCurrentScene()).toBe(game);
+
+    await flushPromises();
+    finishTransition();
+    await toOptions;
+
+    expect(sceneManager.getCurrentScene()).toBe(options);
+    expect(menu.state).toBe('inactive');
+    expect(game.state).toBe('inactive');
+    expect(options.state).toBe('active');
+    expect(sceneManager.isSwitching()).toBe(false);
+  });
+
+  test('should cancel the running transition with a typed error', async () => {
+    const toGame = sceneManager.switchTo('game');
+    await flushPromises();
+    mockTime += 50;
+    sceneManager.update(16);
+
+    const toOptions = sceneManager.switchTo('options', undefined, { policy: 'cancel' });
+    await expect(toGame).rejects.toBeInstanceOf(SceneSwitchCancelledError);
+    expect(menu.state).toBe('inactive');
+
+    await flushPromises();
+    finishTransition();
+    await toOptions;
+
+    expect(sceneManager.getCurrentScene()).toBe(options);
+    expect(game.state).toBe('inactive');
+    expect(options.state).toBe('active');
+  });
+
+  test('should cancel switches that are still queued', async () => {
+    const toGame = sceneManager.switchTo('game');
+    const toOptions = sceneManager.switchTo('options');
+    const toMenu = sceneManager.switchTo('menu', undefined, { policy: 'cancel' });
+
+    await expect(toGame).rejects.toThrow('Switch to scene "game" was cancelled');
+    await expect(toOptions).rejects.toThrow('Switch to scene "options" was cancelled');
+
+    await flushPromises();
+    finishTransition();
+    await toMenu;
+
+    expect(sceneManager.getCurrentScene()).toBe(menu);
+    expect(menu.state).toBe('active');
+    expect(game.state).toBe('inactive');
+    expect(options.state).toBe('inactive');
+  });
+
+  test('should reject a switch while another is running', async () => {
+    const rejectingManager = new SceneManager({
+      autoUpdate: false,
+      enableTransitions: false,
+      switchPolicy: 'reject'
+    });
+    rejectingManager.addScene(new KolownScene('a'));
+    rejectingManager.addScene(new KolownScene('b'));
+
+    const toA = rejectingManager.switchTo('a');
+    await expect(rejectingManager.switchTo('b')).rejects.toBeInstanceOf(SceneSwitchRejectedError);
+    await toA;
+
+    await expect(rejectingManager.switchTo('b')).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,250 @@
+import { SceneManager } from '../SceneManager';
+import { KolownScene } from '../Scene';
+import { ResourceTracker } from '../ResourceTracker';
+import { SceneError } from '../errors';
+import { ManualScheduler } from '../Scheduler';
+import { flushPromises } from './helpers';
+
+class TrackedScene extends KolownScene {
+  constructor(name: string, private log: string[]) {
+    super(name);
+  }
+
+  onEnter(): void {
+    this.log.push(`${this.name}:enter`);
+    this.resources.add(() => this.log.push(`${this.name}:release`));
+  }
+
+  onExit(): void {
+    this.log.push(`${this.name}:exit`);
+  }
+
+  onDestroy(): void {
+    this.log.push(`${this.name}:destroy`);
+  }
+}
+
+describe('ResourceTracker', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should clear timers, listeners and subscriptions on dispose', () => {
+    const tracker = new ResourceTracker();
+    const tick = jest.fn();
+    const timeout = jest.fn();
+    const keydown = jest.fn();
+    const unsubscribe = jest.fn();
+    const target = new EventTarget();
+
+    tracker.setInterval(tick, 100);
+    tracker.setTimeout(timeout, 500);
+    tracker.listen(target, 'keydown', keydown);
+    tracker.subscribe({ unsubscribe });
+    expect(tracker.size).toBe(4);
+
+    jest.advanceTimersByTime(250);
+    target.dispatchEvent(new Event('keydown'));
+    tracker.dispose();
+    jest.advanceTimersByTime(1000);
+    target.dispatchEvent(new Event('keydown'));
+
+    expect(tick).toHaveBeenCalledTimes(2);
+    expect(timeout).not.toHaveBeenCalled();
+    expect(keydown).toHaveBeenCalledTimes(1);
+    expect(unsubscribe).toHaveBeenCalledTimes(1);
+    expect(tracker.size).toBe(0);
+  });
+
+  test('should release early, stop tracking fired timeouts and keep going past failures', () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const tracker = new ResourceTracker();
+    const released: string[] = [];
+
+    const releaseFirst = tracker.add(() => released.push('first'));
+    tracker.add(() => {
+      throw new Error('broken');
+    });
+    tracker.add(() => released.push('last'));
+    tracker.setTimeout(() => undefined, 10);
+    jest.advanceTimersByTime(10);
+
+    releaseFirst();
+    releaseFirst();
+    expect(tracker.size).toBe(2);
+
+    tracker.dispose();
+    expect(released).toEqual(['first', 'last']);
+    expect(consoleError).toHaveBeenCalledTimes(1);
+    consoleError.mockRestore();
+  });
+});
+
+describe('SceneManager teardown', () => {
+  let sceneManager: SceneManager;
+  let log: string[];
+
+  beforeEach(() => {
+    log = [];
+    sceneManager = new SceneManager({ autoUpdate: false, enableTransitions: false });
+    ['menu', 'game', 'pause', 'hud'].forEach(name => sceneManager.addScene(new TrackedScene(name, log)));
+  });
+
+  test('should release a scene\'s resources when it exits', async () => {
+    await sceneManager.switchTo('menu');
+    log.length = 0;
+
+    await sceneManager.switchTo('game');
+
+    expect(log).toEqual(['menu:exit', 'menu:release', 'game:enter']);
+  });
+
+  test('should run scene timers on the manager\'s scheduler', async () => {
+    const scheduler = new ManualScheduler();
+    sceneManager = new SceneManager({ scheduler, autoUpdate: false, enableTransitions: false });
+    const game = new KolownScene('game');
+    sceneManager.addScene(game);
+    sceneManager.addScene(new KolownScene('menu'));
+    await sceneManager.switchTo('game');
+    const tick = jest.fn();
+    const timeout = jest.fn();
+
+    game.resources.setInterval(tick, 100);
+    game.resources.setTimeout(timeout, 150);
+    scheduler.advance(250);
+
+    expect(tick).toHaveBeenCalledTimes(2);
+    expect(timeout).toHaveBeenCalledTimes(1);
+    expect(game.resources.size).toBe(1);
+
+    await sceneManager.switchTo('menu');
+    scheduler.advance(1000);
+
+    expect(tick).toHaveBeenCalledTimes(2);
+    expect(scheduler.hasPending()).toBe(false);
+  });
+
+  test('should exit and destroy a removed scene that is still shown', async () => {
+    await sceneManager.switchTo('menu');
+    await sceneManager.pushScene('pause');
+    log.length = 0;
+
+    const removed = sceneManager.removeScene('pause');
+    expect(sceneManager.hasScene('pause')).toBe(false);
+    expect(sceneManager.getCurrentScene()?.name).toBe('menu');
+    await removed;
+
+    expect(log).toEqual(['pause:exit', 'pause:release', 'pause:destroy']);
+  });
+
+  test('should reject removeScene with a SceneError and still remove the scene', async () => {
+    const broken = new KolownScene('broken');
+    broken.onDestroy = () => {
+      throw new Error('leak');
+    };
+    sceneManager.addScene(broken);
+
+    await expect(sceneManager.removeScene('broken')).rejects.toMatchObject({ phase: 'onDestroy' });
+    expect(sceneManager.hasScene('broken')).toBe(false);
+  });
+
+  test('should tear everything down in order on destroy', async () => {
+    const onError = jest.fn();
+    sceneManager = new SceneManager({ autoUpdate: false, enableTransitions: false, onError });
+    ['menu', 'game', 'pause', 'hud'].forEach(name => sceneManager.addScene(new TrackedScene(name, log)));
+    const broken = new KolownScene('broken');
+    broken.onDestroy = () => {
+      throw new Error('leak');
+    };
+    sceneManager.addScene(broken);
+    sceneManager.addLayer('ui', 1);
+    await sceneManager.switchTo('game');
+    await sceneManager.pushScene('pause');
+    await sceneManager.switchLayerTo('ui', 'hud');
+    const removed = jest.fn();
+    sceneManager.on('sceneRemoved', removed);
+    log.length = 0;
+
+    await sceneManager.destroy();
+
+    expect(log).toEqual([
+      'pause:exit', 'pause:release',
+      'game:exit', 'game:release',
+      'hud:exit', 'hud:release',
+      'hud:destroy', 'pause:destroy', 'game:destroy', 'menu:destroy'
+    ]);
+    expect(onError).toHaveBeenCalledWith(expect.any(SceneError));
+    expect(removed).toHaveBeenCalledTimes(5);
+    expect(sceneManager.getScenes()).toEqual([]);
+    expect(sceneManager.getCurrentScene()).toBeNull();
+    expect(sceneManager.getLayerOrder().map(layer => layer.name)).toEqual([SceneManager.MAIN_LAYER]);
+    expect(sceneManager.isDestroyed()).toBe(true);
+
+    await expect(sceneManager.switchTo('menu')).rejects.toThrow('SceneManager has been destroyed');
+    expect(() => sceneManager.addScene(new KolownScene('late'))).toThrow('SceneManager has been destroyed');
+  });
+
+  test('should cancel a queued switch on destroy', async () => {
+    await sceneManager.switchTo('menu');
+    const queued = sceneManager.switchTo('game');
+
+    await sceneManager.destroy();
+
+    await expect(queued).rejects.toThrow('Switch to scene "game" was cancelled');
+    expect(log).not.toContain('game:enter');
+  });
+
+  describe('during a transition', () => {
+    let scheduler: ManualScheduler;
+
+    beforeEach(async () => {
+      scheduler = new ManualScheduler();
+      sceneManager = new SceneManager({ scheduler, defaultTransitionDuration: 100 });
+      ['menu', 'game'].forEach(name => sceneManager.addScene(new TrackedScene(name, log)));
+      await sceneManager.switchTo('menu');
+      log.length = 0;
+    });
+
+    afterEach(async () => {
+      await sceneManager.destroy();
+    });
+
+    test('should cancel the switch when the incoming scene is removed', async () => {
+      const warn = jest.spyOn(console, 'warn');
+      const game = sceneManager.getScene('game');
+      const switched = sceneManager.switchTo('game');
+      await flushPromises();
+      scheduler.runFrames(2, 20);
+
+      await sceneManager.removeScene('game');
+      scheduler.runFrames(10, 20);
+
+      await expect(switched).rejects.toThrow('Switch to scene "game" was cancelled');
+      expect(game?.state).toBe('inactive');
+      expect(sceneManager.getCurrentScene()).toBeNull();
+      expect(sceneManager.getActiveTransition()).toBeNull();
+      expect(sceneManager.getHistory()).toEqual([{ sceneName: 'menu', params: undefined }]);
+      expect(log).toEqual(['menu:exit', 'game:enter', 'menu:release', 'game:exit', 'game:release', 'game:destroy']);
+      expect(warn).not.toHaveBeenCalled();
+      warn.mockRestore();
+    });
+
+    test('should finish the switch when the outgoing scene is removed', async () => {
+      const switched = sceneManager.switchTo('game');
+      await flushPromises();
+      scheduler.runFrames(2, 20);
+
+      await sceneManager.removeScene('menu');
+      await switched;
+
+      expect(sceneManager.getCurrentScene()?.name).toBe('game');
+      expect(sceneManager.getCurrentScene()?.state).toBe('active');
+      expect(sceneManager.getActiveTransition()).toBeNull();
+      expect(log).toEqual(['menu:exit', 'game:enter', 'menu:release', 'menu:destroy']);
+    });
+  });
+});
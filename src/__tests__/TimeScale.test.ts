@@ -0,0 +1,128 @@
+import { SceneManager } from '../SceneManager';
+import { KolownScene } from '../Scene';
+import { ManualScheduler } from '../Scheduler';
+import { SceneTransition } from '../SceneTransition';
+import { flushPromises } from './helpers';
+
+class RecordingScene extends KolownScene {
+  public deltas: number[] = [];
+  public fixedSteps = 0;
+
+  onUpdate(deltaTime: number): void {
+    this.deltas.push(deltaTime);
+  }
+
+  onFixedUpdate(): void {
+    this.fixedSteps++;
+  }
+}
+
+describe('Time scaling', () => {
+  let scheduler: ManualScheduler;
+  let sceneManager: SceneManager;
+  let scene: RecordingScene;
+
+  beforeEach(async () => {
+    scheduler = new ManualScheduler();
+    sceneManager = new SceneManager({ scheduler, autoUpdate: false, enableTransitions: false });
+    scene = new RecordingScene('level');
+    sceneManager.addScene(scene);
+    await sceneManager.switchTo('level');
+  });
+
+  test('should scale deltaTime by the manager and scene time scales', () => {
+    sceneManager.setTimeScale(0.5);
+    sceneManager.update(20);
+
+    scene.timeScale = 0.5;
+    sceneManager.update(20);
+
+    sceneManager.setTimeScale(0);
+    sceneManager.update(20);
+
+    expect(scene.deltas).toEqual([10, 5, 0]);
+    expect(sceneManager.getTimeScale()).toBe(0);
+  });
+
+  test('should reject negative time scales', () => {
+    expect(() => sceneManager.setTimeScale(-1)).toThrow('Time scale must be a non-negative number, got -1');
+    expect(() => new SceneManager({ timeScale: NaN })).toThrow('Time scale must be a non-negative number');
+  });
+
+  test('should run fixed steps at the scaled rate', async () => {
+    const fixedManager = new SceneManager({
+      scheduler,
+      autoUpdate: false,
+      enableTransitions: false,
+      fixedTimestep: 10,
+      timeScale: 0.25
+    });
+    const fixedScene = new RecordingScene('fixed');
+    fixedManager.addScene(fixedScene);
+    await fixedManager.switchTo('fixed');
+
+    fixedManager.update(40);
+    fixedManager.update(40);
+
+    expect(fixedScene.fixedSteps).toBe(2);
+  });
+
+  test('should step a paused manager by exactly n frames', () => {
+    sceneManager.pause();
+    scheduler.advance(100);
+    sceneManager.update();
+    expect(scene.deltas).toEqual([]);
+
+    sceneManager.step(3, 16);
+    expect(scene.deltas).toEqual([16, 16, 16]);
+    expect(sceneManager.isPaused()).toBe(true);
+
+    sceneManager.resume();
+    scheduler.advance(20);
+    sceneManager.update();
+    expect(scene.deltas).toEqual([16, 16, 16, 20]);
+  });
+});
+
+describe('Transition time scaling', () => {
+  test('should scale transition progress when scaleTransitions is set', async () => {
+    const scheduler = new ManualScheduler();
+    const sceneManager = new SceneManager({
+      scheduler,
+      autoUpdate: false,
+      defaultTransitionDuration: 100,
+      timeScale: 0.5,
+      scaleTransitions: true
+    });
+    const progress: number[] = [];
+    sceneManager.on('transitionProgress', event => progress.push(event.progress));
+    sceneManager.addScene(new KolownScene('level'));
+
+    const switched = sceneManager.switchTo('level', undefined, {});
+    await flushPromises();
+    scheduler.advance(100);
+    sceneManager.update();
+    expect(progress).toEqual([0.5]);
+
+    sceneManager.pause();
+    scheduler.advance(1000);
+    sceneManager.resume();
+    sceneManager.step(1, 50);
+    expect(progress).toEqual([0.5, 0.75]);
+
+    scheduler.advance(50);
+    sceneManager.update();
+    await switched;
+    expect(progress).toEqual([0.5, 0.75, 1]);
+  });
+
+  test('should advance a transition by an explicit delta', () => {
+    const scheduler = new ManualScheduler();
+    const transition = new SceneTransition({ duration: 100 }, scheduler);
+    transition.timeScale = 2;
+
+    transition.start();
+
+    expect(transition.update(10)).toBe(0.2);
+  });
+});
@@ -0,0 +1,146 @@
+import { SceneManager } from '../SceneManager';
+import { KolownScene } from '../Scene';
+import { SceneTransition } from '../SceneTransition';
+import { ManualScheduler } from '../Scheduler';
+import { SceneSwitchCancelledError } from '../errors';
+import { flushPromises } from './helpers';
+
+class LifecycleScene extends KolownScene {
+  public calls: string[] = [];
+  public updates = 0;
+
+  onEnter(params?: unknown): void {
+    this.calls.push(params === undefined ? 'enter' : `enter:${JSON.stringify(params)}`);
+  }
+
+  onExit(): void {
+    this.calls.push('exit');
+  }
+
+  onUpdate(): void {
+    this.updates++;
+  }
+}
+
+describe('SceneTransition controls', () => {
+  let scheduler: ManualScheduler;
+  let transition: SceneTransition;
+  let onComplete: jest.Mock;
+
+  beforeEach(() => {
+    scheduler = new ManualScheduler();
+    onComplete = jest.fn();
+    transition = new SceneTransition({ duration: 100, onComplete }, scheduler);
+    transition.start();
+  });
+
+  test('should not advance while paused', () => {
+    scheduler.advance(25);
+    transition.pause();
+    scheduler.advance(500);
+    expect(transition.update()).toBe(0.25);
+    expect(transition.isPaused()).toBe(true);
+
+    transition.resume();
+    scheduler.advance(25);
+    expect(transition.update()).toBe(0.5);
+  });
+
+  test('should run back to the start and complete when reversed', () => {
+    scheduler.advance(60);
+    transition.update();
+
+    transition.reverse();
+    scheduler.advance(40);
+    expect(transition.update()).toBeCloseTo(0.2);
+    expect(onComplete).not.toHaveBeenCalled();
+
+    scheduler.advance(20);
+    expect(transition.update()).toBe(0);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(transition.isReversed()).toBe(true);
+    expect(transition.isActive()).toBe(false);
+  });
+
+  test('should seek to a progress', () => {
+    transition.seek(0.75);
+    expect(transition.getProgress()).toBe(0.75);
+
+    transition.seek(2);
+    transition.update();
+    expect(onComplete).toHaveBeenCalled();
+  });
+});
+
+describe('SceneManager transition controls', () => {
+  let scheduler: ManualScheduler;
+  let sceneManager: SceneManager;
+  let menu: LifecycleScene;
+  let game: LifecycleScene;
+
+  beforeEach(async () => {
+    scheduler = new ManualScheduler();
+    sceneManager = new SceneManager({ scheduler, autoUpdate: false, defaultTransitionDuration: 100 });
+    menu = new LifecycleScene('menu');
+    game = new LifecycleScene('game');
+    sceneManager.addScene(menu);
+    sceneManager.addScene(game);
+    const entered = sceneManager.switchTo('menu', { page: 1 }, { duration: 1 });
+    await flushPromises();
+    scheduler.advance(1);
+    sceneManager.update();
+    await entered;
+  });
+
+  test('should pause an in-flight transition from pauseCurrentScene', async () => {
+    const switched = sceneManager.switchTo('game');
+    await flushPromises();
+    scheduler.advance(50);
+    sceneManager.update();
+    const updates = game.updates;
+
+    sceneManager.pauseCurrentScene();
+    scheduler.advance(500);
+    sceneManager.update();
+    expect(sceneManager.getActiveTransition()?.getProgress()).toBe(0.5);
+    expect(game.updates).toBe(updates);
+    expect(game.state).toBe('entering');
+
+    sceneManager.resumeCurrentScene();
+    scheduler.advance(50);
+    sceneManager.update();
+    await switched;
+    expect(sceneManager.getCurrentScene()).toBe(game);
+  });
+
+  test('should abort back to the original scene when reversed', async () => {
+    const ends = jest.fn();
+    sceneManager.on('transitionEnd', ends);
+    menu.calls = [];
+
+    const switched = sceneManager.switchTo('game', { level: 3 });
+    await flushPromises();
+    scheduler.advance(50);
+    sceneManager.update();
+
+    sceneManager.getActiveTransition()?.reverse();
+    scheduler.advance(50);
+    sceneManager.update();
+
+    await expect(switched).rejects.toBeInstanceOf(SceneSwitchCancelledError);
+    expect(sceneManager.getCurrentScene()).toBe(menu);
+    expect(sceneManager.getActiveTransition()).toBeNull();
+    expect(menu.state).toBe('active');
+    expect(game.state).toBe('inactive');
+    expect(menu.calls).toEqual(['exit', 'enter:{"page":1}']);
+    expect(game.calls).toEqual(['enter:{"level":3}', 'exit']);
+    expect(ends).toHaveBeenCalledWith({ from: menu, to: game, cancelled: false, reversed: true });
+
+    const retried = sceneManager.switchTo('game', { level: 4 });
+    await flushPromises();
+    scheduler.advance(100);
+    sceneManager.update();
+    await retried;
+    expect(sceneManager.getCurrentScene()).toBe(game);
+  });
+});
@@ -0,0 +1,120 @@
+import { Easing, cubicBezier } from '../Easing';
+import { TransitionEffects } from '../TransitionEffects';
+import { SceneManager } from '../SceneManager';
+import { KolownScene } from '../Scene';
+import { ManualScheduler } from '../Scheduler';
+import { SceneVisualState, TransitionDirection } from '../types';
+import { flushPromises } from './helpers';
+
+describe('Easing', () => {
+  test('should start at 0 and end at 1 for every easing', () => {
+    Object.entries(Easing).forEach(([name, easing]) => {
+      expect([name, easing(0)]).toEqual([name, expect.closeTo(0, 6)]);
+      expect([name, easing(1)]).toEqual([name, expect.closeTo(1, 6)]);
+    });
+  });
+
+  test('should ease in slowly and out quickly', () => {
+    expect(Easing.easeInCubic(0.5)).toBeCloseTo(0.125);
+    expect(Easing.easeOutCubic(0.5)).toBeCloseTo(0.875);
+    expect(Easing.easeInOutSine(0.5)).toBeCloseTo(0.5);
+    expect(Easing.easeInBack(0.2)).toBeLessThan(0);
+  });
+
+  test('should build cubic Bézier easings', () => {
+    const linear = cubicBezier(0, 0, 1, 1);
+    const ease = cubicBezier(0.25, 0.1, 0.25, 1);
+
+    expect(linear(0.3)).toBeCloseTo(0.3, 5);
+    expect(ease(0.5)).toBeCloseTo(0.8024, 3);
+    expect(ease(0)).toBe(0);
+    expect(ease(1)).toBe(1);
+    expect(() => cubicBezier(1.5, 0, 0, 1)).toThrow('Cubic Bézier x values must be between 0 and 1');
+  });
+});
+
+describe('TransitionEffects', () => {
+  test('should fade both scenes', () => {
+    const fade = TransitionEffects.fade();
+
+    expect(fade.render(0.25, 'out').alpha).toBe(0.75);
+    expect(fade.render(0.25, 'in').alpha).toBe(0.25);
+  });
+
+  test('should slide in the given direction', () => {
+    const slide = TransitionEffects.slide({ direction: 'up' });
+
+    expect(slide.render(0.25, 'out')).toMatchObject({ offsetX: 0, offsetY: -0.25 });
+    expect(slide.render(0.25, 'in')).toMatchObject({ offsetX: 0, offsetY: 0.75 });
+    expect(slide.render(1, 'in').offsetY).toBeCloseTo(0);
+  });
+
+  test('should wipe, zoom and fade through a color', () => {
+    const wipe = TransitionEffects.wipe({ direction: 'right' });
+    expect(wipe.render(0.25, 'in').clip).toEqual({ top: 0, right: 0.75, bottom: 0, left: 0 });
+    expect(wipe.render(0.25, 'out').clip).toEqual({ top: 0, right: 0, bottom: 0, left: 0.25 });
+
+    const zoom = TransitionEffects.zoom({ scaleIn: 0.5, scaleOut: 2 });
+    expect(zoom.render(0.5, 'in')).toMatchObject({ alpha: 0.5, scale: 0.75 });
+    expect(zoom.render(0.5, 'out')).toMatchObject({ alpha: 0.5, scale: 1.5 });
+
+    const dip = TransitionEffects.fadeThroughColor({ color: 'white' });
+    expect(dip.render(0.25, 'out')).toMatchObject({ alpha: 1, overlayColor: 'white', overlayAlpha: 0.5 });
+    expect(dip.render(0.25, 'in')).toMatchObject({ alpha: 0 });
+    expect(dip.render(0.75, 'in')).toMatchObject({ alpha: 1, overlayAlpha: 0.5 });
+  });
+
+  test('should apply an effect easing', () => {
+    const fade = TransitionEffects.fade({ easing: Easing.easeInQuad });
+
+    expect(fade.render(0.5, 'in').alpha).toBe(0.25);
+  });
+
+  test('should sequence a fade out and then a slide in', () => {
+    const effect = TransitionEffects.sequence(
+      TransitionEffects.only('out', TransitionEffects.fade()),
+      TransitionEffects.only('in', TransitionEffects.slide({ direction: 'left' }))
+    );
+
+    expect(effect.render(0.25, 'out').alpha).toBe(0.5);
+    expect(effect.render(0.25, 'in').offsetX).toBe(1);
+    expect(effect.render(0.75, 'out').alpha).toBe(0);
+    expect(effect.render(0.75, 'in').offsetX).toBe(0.5);
+    expect(effect.name).toBe('sequence(fade:out, slide:in)');
+  });
+
+  test('should combine effects in parallel', () => {
+    const effect = TransitionEffects.parallel(TransitionEffects.fade(), TransitionEffects.zoom());
+
+    expect(effect.render(0.5, 'in')).toMatchObject({ alpha: 0.25, scale: 0.75 });
+  });
+});
+
+describe('SceneManager transition effects', () => {
+  test('should pass the effect visual state to onTransitionUpdate', async () => {
+    const scheduler = new ManualScheduler();
+    const sceneManager = new SceneManager({ scheduler, autoUpdate: false });
+    const visuals: Array<[TransitionDirection, SceneVisualState | undefined]> = [];
+    const scene = new KolownScene('level');
+    scene.onTransitionUpdate = (_progress, direction, visual) => {
+      visuals.push([direction, visual]);
+    };
+    sceneManager.addScene(scene);
+
+    const switched = sceneManager.switchTo('level', undefined, {
+      duration: 100,
+      effect: TransitionEffects.fade()
+    });
+    await flushPromises();
+    scheduler.advance(50);
+    sceneManager.update();
+    scheduler.advance(50);
+    sceneManager.update();
+    await switched;
+
+    expect(visuals.map(([direction, visual]) => [direction, visual?.alpha])).toEqual([
+      ['in', 0.5],
+      ['in', 1]
+    ]);
+  });
+});
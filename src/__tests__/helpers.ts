@@ -0,0 +1,6 @@
+/**
+ * Resolves once pending promise callbacks have run. Uses the real setImmediate
+ * so it also works in tests that fake timers.
+ */
+export const flushPromises = (): Promise<void> =>
+  new Promise(resolve => jest.requireActual('timers').setImmediate(resolve));
@@ -0,0 +1,7 @@
+/**
+ * Debugging tools, kept out of the main entry so production builds that never
+ * import them do not ship them. Import from 'scene-manager/devtools'.
+ */
+export { SceneInspector } from './SceneInspector';
+export { InspectorOverlay } from './InspectorOverlay';
+export { DEVTOOLS_BRIDGE_KEY, DEVTOOLS_BRIDGE_VERSION, installDevtoolsBridge } from './DevtoolsBridge';
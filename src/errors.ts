@@ -0,0 +1,87 @@
+import { SceneErrorPhase, SceneState } from './types';
+
+/**
+ * Thrown from a switch that was cancelled by a later switch using the 'cancel' policy.
+ */
+export class SceneSwitchCancelledError extends Error {
+  /**
+   * @param sceneName - The name of the scene the cancelled switch was heading to.
+   */
+  constructor(public readonly sceneName: string) {
+    super(`Switch to scene "${sceneName}" was cancelled`);
+    this.name = 'SceneSwitchCancelledError';
+  }
+}
+
+/**
+ * Thrown from a switch started with the 'reject' policy while another switch was running.
+ */
+export class SceneSwitchRejectedError extends Error {
+  /**
+   * @param sceneName - The name of the scene the rejected switch was heading to.
+   * @param runningSceneName - The name of the scene the running switch is heading to.
+   */
+  constructor(
+    public readonly sceneName: string,
+    public readonly runningSceneName: string
+  ) {
+    super(`Switch to scene "${sceneName}" was rejected while switching to "${runningSceneName}"`);
+    this.name = 'SceneSwitchRejectedError';
+  }
+}
+
+/**
+ * Thrown from a switch or push that a guard or middleware denied.
+ */
+export class SceneSwitchDeniedError extends Error {
+  /**
+   * @param sceneName - The name of the scene the denied switch was heading to.
+   * @param guard - What denied it, e.g. 'canExit of "editor"' or 'middleware'.
+   */
+  constructor(
+    public readonly sceneName: string,
+    public readonly guard: string
+  ) {
+    super(`Switch to scene "${sceneName}" was denied by ${guard}`);
+    this.name = 'SceneSwitchDeniedError';
+  }
+}
+
+/**
+ * Thrown in strict mode when a scene is moved to a state that is not reachable from its current one.
+ */
+export class SceneStateError extends Error {
+  /**
+   * @param sceneName - The name of the scene.
+   * @param from - The state the scene was in.
+   * @param to - The state that was requested.
+   */
+  constructor(
+    public readonly sceneName: string,
+    public readonly from: SceneState,
+    public readonly to: SceneState
+  ) {
+    super(`Scene "${sceneName}" cannot go from "${from}" to "${to}"`);
+    this.name = 'SceneStateError';
+  }
+}
+
+/**
+ * Wraps an error thrown or rejected by a scene's lifecycle hook, so handlers
+ * know which scene failed and where.
+ */
+export class SceneError extends Error {
+  /**
+   * @param sceneName - The name of the scene whose hook failed.
+   * @param phase - The hook that failed, e.g. 'onEnter'.
+   * @param cause - What the hook threw.
+   */
+  constructor(
+    public readonly sceneName: string,
+    public readonly phase: SceneErrorPhase,
+    public readonly cause: unknown
+  ) {
+    super(`Scene "${sceneName}" failed in ${phase}: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'SceneError';
+  }
+}
@@ -1,5 +1,24 @@
 export { SceneManager } from './SceneManager';
 export { KolownScene } from './Scene';
+export { BackgroundScene } from './BackgroundScene';
+export { SceneChannel } from './SceneChannel';
 export { SceneTransition } from './SceneTransition';
+export { Easing, cubicBezier } from './Easing';
+export { TransitionEffects, identityVisualState } from './TransitionEffects';
+export { ResourceTracker } from './ResourceTracker';
+export { Store } from './Store';
+export { InputDispatcher } from './InputDispatcher';
+export { SceneProfiler } from './SceneProfiler';
+export type { StoreListener, StoreSelectionListener, StoreUpdate } from './Store';
 export { SceneRegistry } from './SceneRegistry';
+export type { SceneConstructor, SceneFactory, SceneFactoryResult } from './SceneRegistry';
+export { AnimationFrameScheduler, ManualScheduler, TimerScheduler, createDefaultScheduler, systemClock } from './Scheduler';
+export { BrowserPageEnvironment, ManualPageEnvironment, createDefaultPageEnvironment } from './PageEnvironment';
+export { SceneRouter } from './SceneRouter';
+export { BrowserRouterHistory, HashRouterHistory, MemoryRouterHistory } from './RouterHistory';
+export { SCENE_GRAPH_VERSION, migrateSceneGraph } from './SceneGraph';
+export { SCENE_STATE_TRANSITIONS, canTransition } from './SceneStateMachine';
+export { EventEmitter } from './EventEmitter';
+export type { EventListener } from './EventEmitter';
 export * from './types';
+export * from './errors';
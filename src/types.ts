@@ -1,25 +1,564 @@
+import type { KolownScene } from './Scene';
+import type { SceneRegistry } from './SceneRegistry';
+import type { SceneError } from './errors';
+import type { Store } from './Store';
+import type { SceneManager } from './SceneManager';
+import type { SceneInspector } from './SceneInspector';
+
 export interface SceneLifecycle {
-  onEnter?(): void | Promise<void>;
+  preload?(onProgress: (progress: number) => void): Promise<void>;
+  onLoadProgress?(progress: number, sceneName: string): void;
+  onEnter?(params?: unknown): void | Promise<void>;
   onExit?(): void | Promise<void>;
+  onDestroy?(): void | Promise<void>;
   onUpdate?(deltaTime: number): void;
+  onFixedUpdate?(step: number): void;
+  onRender?(alpha: number): void;
   onPause?(): void;
-  onResume?(): void;
+  onResume?(result?: unknown): void;
+  onTransitionUpdate?(progress: number, direction: TransitionDirection, visual?: SceneVisualState): void;
+  canEnter?(context: SceneGuardContext): SceneGuardResult | Promise<SceneGuardResult>;
+  canExit?(context: SceneGuardContext): SceneGuardResult | Promise<SceneGuardResult>;
+  onInput?(event: SceneInputEvent): boolean | void;
 }
 
+export type TransitionDirection = 'in' | 'out';
+
+export type EasingFunction = (t: number) => number;
+
 export interface SceneTransitionOptions {
   duration?: number;
-  easing?: (t: number) => number;
+  easing?: EasingFunction;
+  effect?: TransitionEffect;
   onComplete?(): void;
 }
 
+/**
+ * How a scene should be drawn at a point in a transition. Offsets are
+ * fractions of the viewport, clip insets are fractions of each edge, and the
+ * overlay is a solid color drawn over the scene.
+ */
+export interface SceneVisualState {
+  alpha: number;
+  offsetX: number;
+  offsetY: number;
+  scale: number;
+  clip: SceneClipInsets;
+  overlayColor: string | null;
+  overlayAlpha: number;
+}
+
+export interface SceneClipInsets {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export type EffectDirection = 'left' | 'right' | 'up' | 'down';
+
+export interface EffectOptions {
+  easing?: EasingFunction;
+}
+
+export interface DirectionalEffectOptions extends EffectOptions {
+  direction?: EffectDirection;
+}
+
+export interface ZoomEffectOptions extends EffectOptions {
+  scaleIn?: number;
+  scaleOut?: number;
+}
+
+export interface FadeThroughColorOptions extends EffectOptions {
+  color?: string;
+}
+
+/**
+ * A renderer-agnostic transition effect: describes how the outgoing and the
+ * incoming scene look for a given transition progress.
+ */
+export interface TransitionEffect {
+  readonly name: string;
+  render(progress: number, direction: TransitionDirection): SceneVisualState;
+}
+
+/**
+ * A source of time in milliseconds.
+ */
+export interface Clock {
+  now(): number;
+}
+
+/**
+ * Drives the update loop and timers. Each scheduling call returns a function
+ * that cancels it.
+ */
+export interface Scheduler extends Clock {
+  requestFrame(callback: () => void): () => void;
+  setTimeout(callback: () => void, delay: number): () => void;
+}
+
+/**
+ * Tells SceneManager whether the page is hidden or has lost focus. subscribe's
+ * listener is called whenever either may have changed and returns an unsubscribe function.
+ */
+export interface PageEnvironment {
+  isHidden(): boolean;
+  hasFocus(): boolean;
+  subscribe(listener: () => void): () => void;
+}
+
+/**
+ * When SceneManager pauses on its own: onHidden pauses while the page is hidden
+ * (default: true), onBlur while the window does not have focus (default: false).
+ */
+export interface AutoPauseOptions {
+  onHidden?: boolean;
+  onBlur?: boolean;
+}
+
+export type SwitchPolicy = 'queue' | 'cancel' | 'reject';
+
+export interface SwitchOptions extends SceneTransitionOptions {
+  policy?: SwitchPolicy;
+  replace?: boolean;
+}
+
+export type NavigationAction = 'push' | 'replace' | 'back' | 'forward';
+
+export interface SceneHistoryEntry {
+  sceneName: string;
+  params: unknown;
+}
+
+/**
+ * What a guard or middleware is asked about: the scene being left (null on the
+ * first switch), the scene being entered with its params, and how the switch was
+ * started ('stack' for pushScene).
+ */
+export interface SceneGuardContext {
+  from: KolownScene | null;
+  to: KolownScene;
+  params: unknown;
+  action: NavigationAction | 'stack';
+}
+
+/**
+ * Sends a guarded switch to another scene instead.
+ */
+export interface SceneRedirect {
+  redirect: string;
+  params?: unknown;
+}
+
+/**
+ * true allows the switch, false denies it, and a redirect sends it elsewhere.
+ */
+export type SceneGuardResult = boolean | SceneRedirect;
+
+export type SceneMiddleware = (context: SceneGuardContext) => SceneGuardResult | Promise<SceneGuardResult>;
+
+/**
+ * Maps scene names to the params their onEnter receives.
+ * Use undefined for scenes that take no params.
+ */
+export type SceneParamMap = Record<string, any>;
+
+export type SceneName<TScenes> = Extract<keyof TScenes, string>;
+
+/**
+ * Params argument for a scene: optional when the scene accepts undefined, required otherwise.
+ */
+export type SceneParamsArgs<TParams> = undefined extends TParams
+  ? [params?: TParams]
+  : [params: TParams];
+
+export type SceneSwitchArgs<TParams> = undefined extends TParams
+  ? [params?: TParams, switchOptions?: SwitchOptions]
+  : [params: TParams, switchOptions?: SwitchOptions];
+
 export type SceneState = 'inactive' | 'entering' | 'active' | 'exiting' | 'paused';
 
+export interface SceneStateHistoryEntry {
+  from: SceneState;
+  to: SceneState;
+  timestamp: number;
+  legal: boolean;
+}
+
 export interface SceneManagerOptions {
   enableTransitions?: boolean;
   defaultTransitionDuration?: number;
   autoUpdate?: boolean;
+  updateCoveredScenes?: boolean;
+  inspectableStack?: boolean;
+  loadingScene?: string;
+  loadingSceneDelay?: number;
+  switchPolicy?: SwitchPolicy;
+  strictStateTransitions?: boolean;
+  registry?: SceneRegistry;
+  disposePolicy?: SceneDisposePolicy;
+  fixedTimestep?: number;
+  scheduler?: Scheduler;
+  timeScale?: number;
+  scaleTransitions?: boolean;
+  maxHistory?: number;
+  maxFixedSteps?: number;
+  onError?(error: SceneError): void;
+  errorScene?: string;
+  store?: Store<any>;
+  inputActions?: InputActionMap;
+  autoPause?: boolean | AutoPauseOptions;
+  pageEnvironment?: PageEnvironment;
+  profiler?: boolean | ProfilerOptions;
+}
+
+/**
+ * Settings for SceneProfiler. frameBudget is the time in milliseconds a frame's
+ * updates may take before frameBudgetExceeded fires, sampleSize the number of recent
+ * frames FPS and frame-time percentiles are computed from, and clock times the hooks.
+ */
+export interface ProfilerOptions {
+  frameBudget?: number;
+  sampleSize?: number;
+  clock?: Clock;
+}
+
+/**
+ * How long one lifecycle hook of one scene has taken, in milliseconds.
+ */
+export interface HookTiming {
+  calls: number;
+  total: number;
+  average: number;
+  max: number;
+  last: number;
+}
+
+/**
+ * Hook timings of one scene, keyed by hook name.
+ */
+export type SceneTimings = Partial<Record<SceneErrorPhase, HookTiming>>;
+
+/**
+ * Time the recent frames took to update, in milliseconds.
+ */
+export interface FrameTimeStats {
+  average: number;
+  p50: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+export interface TransitionTiming {
+  from: string | null;
+  to: string;
+  duration: number;
+  expectedDuration: number;
+  cancelled: boolean;
+  reversed: boolean;
+}
+
+export interface PerformanceSnapshot {
+  frames: number;
+  fps: number;
+  frameTime: FrameTimeStats;
+  frameBudget: number;
+  budgetOverruns: number;
+  scenes: Record<string, SceneTimings>;
+  transitions: TransitionTiming[];
+}
+
+/**
+ * One profiled frame: the time it took, its deltaTime and how much of it each scene used.
+ */
+export interface FrameProfileEvent {
+  duration: number;
+  deltaTime: number;
+  budget: number;
+  scenes: Record<string, number>;
+}
+
+/**
+ * The lifecycle hook a SceneError came from.
+ */
+export type SceneErrorPhase =
+  | 'preload'
+  | 'onEnter'
+  | 'onExit'
+  | 'onPause'
+  | 'onResume'
+  | 'onUpdate'
+  | 'onFixedUpdate'
+  | 'onRender'
+  | 'onTransitionUpdate'
+  | 'onInput'
+  | 'onDestroy'
+  | 'transition';
+
+/**
+ * Anything a ResourceTracker can add an event listener to, such as a DOM element or window.
+ */
+export interface ListenerTarget {
+  addEventListener(type: string, listener: (event: any) => void, options?: boolean | AddEventListenerOptions): void;
+  removeEventListener(type: string, listener: (event: any) => void, options?: boolean | EventListenerOptions): void;
+}
+
+/**
+ * A raw input handed to InputDispatcher.dispatch.
+ * type is the kind of event, e.g. 'keydown' or 'pointerdown'; input is what was
+ * pressed or moved, e.g. 'Space' or 'Pointer0'.
+ */
+export interface SceneInput {
+  type: string;
+  input: string;
+  x?: number;
+  y?: number;
+  repeat?: boolean;
+  originalEvent?: unknown;
+}
+
+/**
+ * An input as scenes receive it in onInput, with the actions bound to it.
+ */
+export interface SceneInputEvent extends SceneInput {
+  actions: string[];
+}
+
+/**
+ * Maps action names to the inputs that trigger them, e.g. { jump: ['Space', 'KeyW'] }.
+ */
+export type InputActionMap = Record<string, string[]>;
+
+/**
+ * A subscription a ResourceTracker can end, e.g. from RxJS or a store.
+ */
+export interface Unsubscribable {
+  unsubscribe(): void;
+}
+
+export interface SceneDisposePolicy {
+  maxInstances?: number;
+  keepAlive?: number;
+}
+
+export interface SceneLayer {
+  readonly name: string;
+  readonly zIndex: number;
+  readonly scene: KolownScene | null;
+}
+
+export interface SceneEvent {
+  scene: KolownScene;
+}
+
+export interface SceneStateChangeEvent extends SceneEvent {
+  previousState: SceneState;
+  state: SceneState;
+}
+
+export interface BeforeSwitchEvent {
+  from: KolownScene | null;
+  to: KolownScene;
+  readonly cancelled: boolean;
+  cancel(): void;
+}
+
+export interface TransitionEvent {
+  from: KolownScene | null;
+  to: KolownScene;
+}
+
+export interface TransitionStartEvent extends TransitionEvent {
+  duration: number;
+}
+
+export interface TransitionProgressEvent extends TransitionEvent {
+  progress: number;
+}
+
+export interface TransitionEndEvent extends TransitionEvent {
+  cancelled: boolean;
+  reversed: boolean;
+}
+
+export interface NavigatedEvent extends SceneEvent {
+  params: unknown;
+  action: NavigationAction;
+}
+
+/**
+ * A scene as SceneInspector shows it. layer is the layer the scene is shown in, if any.
+ */
+export interface InspectedScene {
+  name: string;
+  state: SceneState;
+  data: SceneData;
+  current: boolean;
+  layer: string | null;
+  background: boolean;
+}
+
+export interface InspectedTransition {
+  from: string | null;
+  to: string;
+  progress: number;
+  paused: boolean;
+  reversed: boolean;
+}
+
+/**
+ * A SceneManager event recorded by SceneInspector, with a one-line description.
+ */
+export interface InspectorEventRecord {
+  type: keyof SceneManagerEvents;
+  time: number;
+  summary: string;
+}
+
+/**
+ * Everything SceneInspector knows about a manager at one moment. stack is null
+ * when the manager was created with inspectableStack: false.
+ */
+export interface InspectorSnapshot {
+  scenes: InspectedScene[];
+  stack: string[] | null;
+  transition: InspectedTransition | null;
+  paused: boolean;
+  timeScale: number;
+  events: InspectorEventRecord[];
+  performance: PerformanceSnapshot | null;
+}
+
+export interface SceneInspectorOptions {
+  maxEvents?: number;
+  clock?: Clock;
+}
+
+export interface InspectorOverlayOptions {
+  container?: HTMLElement;
+  refreshInterval?: number;
+  maxEvents?: number;
+}
+
+/**
+ * What installDevtoolsBridge puts on the global object, for browser extensions
+ * and the console. version changes when the shape does.
+ */
+export interface DevtoolsBridge {
+  version: number;
+  manager: SceneManager<any, any>;
+  inspector: SceneInspector;
+  getSnapshot(): InspectorSnapshot;
+  switchTo(sceneName: string, params?: unknown): Promise<void>;
+  pause(): void;
+  resume(): void;
+  step(frames?: number): void;
+  subscribe(listener: () => void): () => void;
+}
+
+export interface DevtoolsBridgeOptions {
+  target?: object;
+  key?: string;
+  inspector?: SceneInspector;
+}
+
+export interface SceneManagerEvents {
+  sceneAdded: SceneEvent;
+  sceneRemoved: SceneEvent;
+  beforeSwitch: BeforeSwitchEvent;
+  transitionStart: TransitionStartEvent;
+  transitionProgress: TransitionProgressEvent;
+  transitionEnd: TransitionEndEvent;
+  paused: SceneStateChangeEvent;
+  resumed: SceneStateChangeEvent;
+  stateChanged: SceneStateChangeEvent;
+  navigated: NavigatedEvent;
+  frameProfiled: FrameProfileEvent;
+  frameBudgetExceeded: FrameProfileEvent;
+  transitionProfiled: TransitionTiming;
+}
+
+/**
+ * Where a SceneRouter reads and writes paths: the URL hash, the History API,
+ * or memory in tests. listen fires when the path changes from outside the
+ * router, e.g. the browser's back button. go moves through the existing
+ * entries; without it, the router replaces the path when the manager goes
+ * back or forward.
+ */
+export interface RouterHistory {
+  getPath(): string;
+  push(path: string): void;
+  replace(path: string): void;
+  listen(listener: (path: string) => void): () => void;
+  go?(delta: number): void;
+}
+
+export interface SceneRoute {
+  path: string;
+  scene: string;
+  parse?(pathParams: Record<string, string>, query: Record<string, string>): unknown;
+  format?(params: any): Record<string, string | number>;
+}
+
+export interface SceneRouterOptions {
+  routes: SceneRoute[];
+  history: RouterHistory;
+  notFoundScene?: string;
+  onError?(error: unknown, path: string): void;
+}
+
+export interface SerializedScene {
+  name: string;
+  type: string | null;
+  state: SceneState;
+  data: SceneData;
+  custom?: unknown;
+}
+
+export interface SerializedLayer {
+  name: string;
+  zIndex: number;
+  scene: string | null;
+}
+
+export interface SerializedSceneGraph {
+  version: number;
+  scenes: SerializedScene[];
+  stack: string[];
+  layers: SerializedLayer[];
+  /** Running background scenes, in start order. Saves from before they existed leave it out. */
+  background?: string[];
+}
+
+/**
+ * Upgrades a saved scene graph from one version to the next.
+ * Registered under the version it upgrades from.
+ */
+export type SceneGraphMigration = (graph: any) => any;
+
+export interface SerializeOptions {
+  version?: number;
+}
+
+export interface DeserializeOptions {
+  version?: number;
+  migrations?: Record<number, SceneGraphMigration>;
 }
 
 export interface SceneData {
   [key: string]: any;
 }
+
+/**
+ * What happens to a scene's data when it exits: 'keep' leaves it for the next time
+ * the scene is entered, 'reset' puts it back to the scene's initial data.
+ */
+export type SceneDataPolicy = 'keep' | 'reset';
+
+export interface SceneOptions<TData extends object = SceneData> {
+  data?: TData | (() => TData);
+  dataPolicy?: SceneDataPolicy;
+}